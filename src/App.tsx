@@ -12,6 +12,8 @@ import Vocabulary from './pages/Vocabulary';
 import AddWord from './pages/AddWord';
 import Profile from './pages/Profile';
 import Quiz from './pages/Quiz';
+import QuizHistory from './pages/QuizHistory';
+import Review from './pages/Review';
 
 const queryClient = new QueryClient();
 
@@ -81,6 +83,36 @@ const AppRoutes: React.FC = () => {
           </ProtectedRoute>
         }
       />
+      <Route
+        path="/quiz/history"
+        element={
+          <ProtectedRoute>
+            <Layout>
+              <QuizHistory />
+            </Layout>
+          </ProtectedRoute>
+        }
+      />
+      <Route
+        path="/quiz/history/:sessionId"
+        element={
+          <ProtectedRoute>
+            <Layout>
+              <QuizHistory />
+            </Layout>
+          </ProtectedRoute>
+        }
+      />
+      <Route
+        path="/review"
+        element={
+          <ProtectedRoute>
+            <Layout>
+              <Review />
+            </Layout>
+          </ProtectedRoute>
+        }
+      />
       <Route
         path="/profile"
         element={
@@ -9,7 +9,8 @@ import {
   LogOut, 
   BarChart3,
   Home,
-  Target
+  Target,
+  CalendarClock
 } from 'lucide-react';
 import { useAuth } from '../contexts/AuthContext';
 
@@ -27,6 +28,7 @@ const Layout: React.FC<LayoutProps> = ({ children }) => {
     { name: 'Vocabulary', href: '/vocabulary', icon: BookOpen },
     { name: 'Add Word', href: '/add-word', icon: Plus },
     { name: 'Quiz', href: '/quiz', icon: Target },
+    { name: 'Review', href: '/review', icon: CalendarClock },
     { name: 'Profile', href: '/profile', icon: User },
   ];
 
@@ -120,7 +122,7 @@ const Layout: React.FC<LayoutProps> = ({ children }) => {
                 <Menu className="h-6 w-6" />
               </button>
               <h2 className="ml-4 lg:ml-0 text-lg font-semibold text-gray-900">
-                {navigation.find(item => item.href === location.pathname)?.name || 'Dashboard'}
+                {navigation.find(item => location.pathname === item.href || location.pathname.startsWith(`${item.href}/`))?.name || 'Dashboard'}
               </h2>
             </div>
 
@@ -0,0 +1,35 @@
+import React from 'react';
+import { Volume2 } from 'lucide-react';
+import { usePronunciation } from '../hooks/usePronunciation';
+
+interface PronounceButtonProps {
+  text: string;
+  className?: string;
+}
+
+// Small speaker button that reads a word aloud with the user's voice settings
+const PronounceButton: React.FC<PronounceButtonProps> = ({ text, className = '' }) => {
+  const { isSupported, speak, speakingText } = usePronunciation();
+
+  if (!isSupported) return null;
+
+  const isSpeaking = speakingText === text;
+
+  return (
+    <button
+      type="button"
+      onClick={(e) => {
+        // Rows and cards around the button have their own click handlers
+        e.stopPropagation();
+        speak(text);
+      }}
+      className={`p-1 rounded hover:bg-gray-100 ${isSpeaking ? 'text-primary-600' : 'text-gray-400 hover:text-gray-600'} ${className}`}
+      title={`Pronounce "${text}"`}
+      aria-label={`Pronounce ${text}`}
+    >
+      <Volume2 className={`h-4 w-4 ${isSpeaking ? 'animate-pulse' : ''}`} />
+    </button>
+  );
+};
+
+export default PronounceButton;
@@ -0,0 +1,145 @@
+import React, { useId, useState } from 'react';
+import { X } from 'lucide-react';
+import { useTags } from '../hooks/useTags';
+import { normalizeTagName, pickTagColor } from '../utils/tags';
+
+interface TagPickerProps {
+  value: string[];
+  onChange: (tags: string[]) => void;
+  className?: string;
+}
+
+// Selected tags as badges plus an input that suggests the user's tags as
+// they type. Typing a name that doesn't exist yet creates the tag and saves
+// it with the user's tags.
+const TagPicker: React.FC<TagPickerProps> = ({ value, onChange, className = '' }) => {
+  const { tags, getTagColor, createTag } = useTags();
+  const [query, setQuery] = useState('');
+  const [isOpen, setIsOpen] = useState(false);
+  const [activeIndex, setActiveIndex] = useState(0);
+  const listId = useId();
+
+  const name = normalizeTagName(query);
+  const options = tags
+    .map(tag => tag.name)
+    .filter(tag => !value.includes(tag) && tag.includes(name))
+    // Prefix matches first
+    .sort((a, b) => Number(!a.startsWith(name)) - Number(!b.startsWith(name)));
+  const canCreate = !!name && !value.includes(name) && !tags.some(tag => tag.name === name);
+  const choices = canCreate ? [...options, name] : options;
+
+  const addTag = (tag: string) => {
+    if (canCreate && tag === name) {
+      createTag(tag, pickTagColor(tags)).catch(() => {
+        // updateUser already reports the failure
+      });
+    }
+    if (tag && !value.includes(tag)) onChange([...value, tag]);
+    setQuery('');
+    setActiveIndex(0);
+  };
+
+  const removeTag = (tag: string) => onChange(value.filter(item => item !== tag));
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    switch (e.key) {
+      case 'ArrowDown':
+        e.preventDefault();
+        setIsOpen(true);
+        setActiveIndex(index => Math.min(index + 1, choices.length - 1));
+        break;
+      case 'ArrowUp':
+        e.preventDefault();
+        setActiveIndex(index => Math.max(index - 1, 0));
+        break;
+      case 'Enter':
+      case ',':
+        // Keep Enter from submitting the surrounding form
+        e.preventDefault();
+        if (isOpen && choices[activeIndex]) addTag(choices[activeIndex]);
+        else if (name) addTag(name);
+        break;
+      case 'Backspace':
+        if (!query && value.length > 0) removeTag(value[value.length - 1]);
+        break;
+      case 'Escape':
+        setIsOpen(false);
+        break;
+    }
+  };
+
+  return (
+    <div className={`relative ${className}`}>
+      <div className="flex flex-wrap items-center gap-1 border border-gray-300 rounded-md bg-white px-2 py-1 focus-within:ring-2 focus-within:ring-primary-500 focus-within:border-primary-500">
+        {value.map(tag => (
+          <span
+            key={tag}
+            className={`inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium ${getTagColor(tag)}`}
+          >
+            {tag}
+            <button
+              type="button"
+              onClick={() => removeTag(tag)}
+              className="ml-1 opacity-60 hover:opacity-100"
+              aria-label={`Remove tag ${tag}`}
+            >
+              <X className="h-3 w-3" />
+            </button>
+          </span>
+        ))}
+        <input
+          type="text"
+          value={query}
+          onChange={(e) => {
+            setQuery(e.target.value);
+            setIsOpen(true);
+            setActiveIndex(0);
+          }}
+          onFocus={() => setIsOpen(true)}
+          onBlur={() => setIsOpen(false)}
+          onKeyDown={handleKeyDown}
+          placeholder={value.length === 0 ? 'Add tags...' : ''}
+          className="flex-1 min-w-[6rem] border-0 p-1 text-sm focus:outline-none focus:ring-0"
+          role="combobox"
+          aria-expanded={isOpen && choices.length > 0}
+          aria-controls={listId}
+          aria-autocomplete="list"
+          aria-label="Add tag"
+        />
+      </div>
+
+      {isOpen && choices.length > 0 && (
+        <ul
+          id={listId}
+          role="listbox"
+          className="absolute z-10 mt-1 w-full max-h-48 overflow-auto bg-white border border-gray-200 rounded-md shadow-lg py-1"
+        >
+          {choices.map((tag, index) => (
+            <li
+              key={tag}
+              role="option"
+              aria-selected={index === activeIndex}
+              onMouseDown={(e) => {
+                // Keep focus in the input
+                e.preventDefault();
+                addTag(tag);
+              }}
+              onMouseEnter={() => setActiveIndex(index)}
+              className={`px-3 py-1 text-sm cursor-pointer ${index === activeIndex ? 'bg-gray-100' : ''}`}
+            >
+              {canCreate && tag === name ? (
+                <span className="text-gray-700">Create "<span className="font-medium">{tag}</span>"</span>
+              ) : (
+                <span className={`inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium ${getTagColor(tag)}`}>
+                  {tag}
+                </span>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default TagPicker;
@@ -0,0 +1,306 @@
+import React, { useMemo, useState } from 'react';
+import { useAuth } from '../../contexts/AuthContext';
+import { useVocabularyEntries } from '../../hooks/useVocabularyEntries';
+import { QuizHistoryEntry, getQuizHistory } from '../../utils/quizHistory';
+import { addDays } from '../../utils/activity';
+import { VocabularyEntry } from '../../types/vocabulary';
+
+type ChartRange = 7 | 30 | 90;
+type ChartMetric = 'added' | 'mastered' | 'accuracy';
+
+interface ChartPoint {
+  label: string;
+  // null leaves a gap, e.g. a day without quizzes
+  value: number | null;
+  detail: string;
+}
+
+interface Bucket {
+  start: Date;
+  // Exclusive
+  end: Date;
+  label: string;
+}
+
+const RANGES: ChartRange[] = [7, 30, 90];
+
+const METRICS: Array<{ value: ChartMetric; label: string }> = [
+  { value: 'added', label: 'Words added' },
+  { value: 'mastered', label: 'Mastered words' },
+  { value: 'accuracy', label: 'Quiz accuracy' },
+];
+
+const WIDTH = 600;
+const HEIGHT = 200;
+const PADDING = { top: 12, right: 12, bottom: 28, left: 36 };
+const PLOT_WIDTH = WIDTH - PADDING.left - PADDING.right;
+const PLOT_HEIGHT = HEIGHT - PADDING.top - PADDING.bottom;
+
+const startOfDay = (date: Date) => new Date(date.getFullYear(), date.getMonth(), date.getDate());
+
+const formatShortDate = (date: Date) =>
+  date.toLocaleDateString(undefined, { month: 'short', day: 'numeric' });
+
+// Days for the shorter ranges, weeks ending today for 90 days
+const getBuckets = (range: ChartRange, today: Date = new Date()): Bucket[] => {
+  const tomorrow = addDays(startOfDay(today), 1);
+  const size = range === 90 ? 7 : 1;
+  const count = Math.ceil(range / size);
+
+  return Array.from({ length: count }, (_, index) => {
+    const end = addDays(tomorrow, -(count - 1 - index) * size);
+    const start = addDays(end, -size);
+    const label = size === 1
+      ? formatShortDate(start)
+      : `${formatShortDate(start)} – ${formatShortDate(addDays(end, -1))}`;
+    return { start, end, label };
+  });
+};
+
+const isInBucket = (time: number, bucket: Bucket) =>
+  time >= bucket.start.getTime() && time < bucket.end.getTime();
+
+// There is no status history, so a mastered word counts from its last review
+// (or last edit, for words marked mastered by hand)
+const getMasteredAt = (entry: VocabularyEntry) =>
+  new Date(entry.last_reviewed || entry.updated_at).getTime();
+
+const getPoints = (
+  metric: ChartMetric,
+  buckets: Bucket[],
+  entries: VocabularyEntry[],
+  history: QuizHistoryEntry[]
+): ChartPoint[] => {
+  switch (metric) {
+    case 'added':
+      return buckets.map(bucket => {
+        const value = entries.filter(entry => isInBucket(new Date(entry.created_at).getTime(), bucket)).length;
+        return { label: bucket.label, value, detail: `${value} word${value === 1 ? '' : 's'} added` };
+      });
+    case 'mastered': {
+      const masteredAt = entries.filter(entry => entry.status === 'mastered').map(getMasteredAt);
+      return buckets.map(bucket => {
+        const value = masteredAt.filter(time => time < bucket.end.getTime()).length;
+        return { label: bucket.label, value, detail: `${value} word${value === 1 ? '' : 's'} mastered` };
+      });
+    }
+    case 'accuracy':
+      return buckets.map(bucket => {
+        const sessions = history.filter(session => isInBucket(session.completedAt, bucket));
+        const total = sessions.reduce((sum, session) => sum + session.totalQuestions, 0);
+        const correct = sessions.reduce((sum, session) => sum + session.correctAnswers, 0);
+        if (total === 0) return { label: bucket.label, value: null, detail: 'No quizzes' };
+        const value = Math.round((correct / total) * 100);
+        return {
+          label: bucket.label,
+          value,
+          detail: `${value}% · ${correct} of ${total} correct in ${sessions.length} session${sessions.length === 1 ? '' : 's'}`,
+        };
+      });
+  }
+};
+
+// Round the axis up to a readable maximum
+const getAxisMax = (metric: ChartMetric, points: ChartPoint[]) => {
+  if (metric === 'accuracy') return 100;
+  const max = Math.max(0, ...points.map(point => point.value || 0));
+  if (max <= 4) return 4;
+  const step = Math.pow(10, Math.floor(Math.log10(max)));
+  return Math.ceil(max / step) * step;
+};
+
+const Chart: React.FC<{ points: ChartPoint[]; kind: 'bar' | 'line'; max: number; unit?: string }> = ({
+  points,
+  kind,
+  max,
+  unit = ''
+}) => {
+  const [activeIndex, setActiveIndex] = useState<number | null>(null);
+  const slot = PLOT_WIDTH / points.length;
+  const x = (index: number) => PADDING.left + slot * index + slot / 2;
+  const y = (value: number) => PADDING.top + PLOT_HEIGHT - (value / max) * PLOT_HEIGHT;
+  // Keep the x axis readable at 30 points
+  const labelEvery = Math.ceil(points.length / 8);
+
+  // Line segments break around missing values
+  const segments: string[] = [];
+  let current: string[] = [];
+  points.forEach((point, index) => {
+    if (point.value === null) {
+      if (current.length) segments.push(current.join(' '));
+      current = [];
+    } else {
+      current.push(`${x(index)},${y(point.value)}`);
+    }
+  });
+  if (current.length) segments.push(current.join(' '));
+
+  const active = activeIndex !== null ? points[activeIndex] : null;
+
+  return (
+    <div className="relative">
+      <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-auto" role="img" aria-label="Progress chart">
+        {[0, 0.5, 1].map(fraction => (
+          <g key={fraction}>
+            <line
+              x1={PADDING.left}
+              x2={WIDTH - PADDING.right}
+              y1={y(max * fraction)}
+              y2={y(max * fraction)}
+              className="stroke-gray-200"
+            />
+            <text x={PADDING.left - 6} y={y(max * fraction) + 4} textAnchor="end" className="fill-gray-400 text-[10px]">
+              {Math.round(max * fraction)}{unit}
+            </text>
+          </g>
+        ))}
+
+        {kind === 'bar' && points.map((point, index) => point.value !== null && (
+          <rect
+            key={index}
+            x={x(index) - Math.min(slot * 0.35, 16)}
+            width={Math.min(slot * 0.7, 32)}
+            y={y(point.value)}
+            height={PLOT_HEIGHT + PADDING.top - y(point.value)}
+            rx={2}
+            className={activeIndex === index ? 'fill-primary-700' : 'fill-primary-500'}
+          />
+        ))}
+
+        {kind === 'line' && segments.map((segment, index) => (
+          <polyline key={index} points={segment} fill="none" strokeWidth={2} className="stroke-primary-600" />
+        ))}
+        {kind === 'line' && points.map((point, index) => point.value !== null && (
+          <circle
+            key={index}
+            cx={x(index)}
+            cy={y(point.value)}
+            r={activeIndex === index ? 5 : 3}
+            className="fill-primary-600"
+          />
+        ))}
+
+        {points.map((point, index) => index % labelEvery === 0 && (
+          <text key={index} x={x(index)} y={HEIGHT - 8} textAnchor="middle" className="fill-gray-500 text-[10px]">
+            {point.label.split(' – ')[0]}
+          </text>
+        ))}
+
+        {/* Hover and focus targets, one per point */}
+        {points.map((point, index) => (
+          <rect
+            key={index}
+            x={PADDING.left + slot * index}
+            y={PADDING.top}
+            width={slot}
+            height={PLOT_HEIGHT}
+            fill="transparent"
+            tabIndex={0}
+            aria-label={`${point.label}: ${point.detail}`}
+            onMouseEnter={() => setActiveIndex(index)}
+            onMouseLeave={() => setActiveIndex(null)}
+            onFocus={() => setActiveIndex(index)}
+            onBlur={() => setActiveIndex(null)}
+            className="outline-none"
+          />
+        ))}
+      </svg>
+
+      {active && activeIndex !== null && (
+        <div
+          className="absolute pointer-events-none bg-gray-900 text-white text-xs rounded px-2 py-1 shadow-lg whitespace-nowrap"
+          style={{
+            left: `${(x(activeIndex) / WIDTH) * 100}%`,
+            top: `${((active.value !== null ? y(active.value) : PADDING.top + PLOT_HEIGHT / 2) / HEIGHT) * 100}%`,
+            transform: 'translate(-50%, calc(-100% - 8px))'
+          }}
+        >
+          <div className="font-medium">{active.label}</div>
+          <div>{active.detail}</div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+// Words added, mastered words and quiz accuracy over the last 7, 30 or 90
+// days, drawn as plain SVG
+const ProgressChart: React.FC = () => {
+  const { user } = useAuth();
+  const { data: entries, isLoading } = useVocabularyEntries();
+  const [range, setRange] = useState<ChartRange>(30);
+  const [metric, setMetric] = useState<ChartMetric>('added');
+
+  const points = useMemo(
+    () => getPoints(metric, getBuckets(range), entries || [], getQuizHistory(user?.id)),
+    [metric, range, entries, user?.id]
+  );
+  // Empty accuracy buckets are null, so a 0% day still counts as data;
+  // the word counts have nothing to show while they are all 0
+  const hasData = points.some(point => point.value !== null && (metric === 'accuracy' || point.value > 0));
+
+  return (
+    <div className="card">
+      <div className="card-header">
+        <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-3">
+          <h3 className="text-lg font-medium text-gray-900">Progress</h3>
+          <div className="flex flex-wrap gap-2">
+            <div className="flex rounded-lg border border-gray-200 overflow-hidden" role="group" aria-label="Chart">
+              {METRICS.map(option => (
+                <button
+                  key={option.value}
+                  onClick={() => setMetric(option.value)}
+                  aria-pressed={metric === option.value}
+                  className={`px-3 py-1 text-sm ${
+                    metric === option.value ? 'bg-primary-600 text-white' : 'bg-white text-gray-600 hover:bg-gray-50'
+                  }`}
+                >
+                  {option.label}
+                </button>
+              ))}
+            </div>
+            <div className="flex rounded-lg border border-gray-200 overflow-hidden" role="group" aria-label="Range">
+              {RANGES.map(option => (
+                <button
+                  key={option}
+                  onClick={() => setRange(option)}
+                  aria-pressed={range === option}
+                  className={`px-3 py-1 text-sm ${
+                    range === option ? 'bg-primary-600 text-white' : 'bg-white text-gray-600 hover:bg-gray-50'
+                  }`}
+                >
+                  {option}d
+                </button>
+              ))}
+            </div>
+          </div>
+        </div>
+      </div>
+      <div className="card-body">
+        {isLoading ? (
+          <div className="flex items-center justify-center h-48">
+            <div className="spinner w-8 h-8"></div>
+          </div>
+        ) : hasData ? (
+          <Chart
+            points={points}
+            kind={metric === 'added' ? 'bar' : 'line'}
+            max={getAxisMax(metric, points)}
+            unit={metric === 'accuracy' ? '%' : ''}
+          />
+        ) : (
+          <p className="text-sm text-gray-500 text-center py-16">
+            {metric === 'accuracy'
+              ? 'No quizzes in this period yet.'
+              : metric === 'added' ? 'No words added in this period.' : 'No mastered words yet.'}
+          </p>
+        )}
+        {range === 90 && hasData && (
+          <p className="mt-2 text-xs text-gray-500">Grouped by week.</p>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ProgressChart;
@@ -0,0 +1,220 @@
+import React, { useMemo, useState } from 'react';
+import { Flame, Snowflake, Pencil, Save, Loader2 } from 'lucide-react';
+import { useAuth } from '../../contexts/AuthContext';
+import { useVocabularyEntries } from '../../hooks/useVocabularyEntries';
+import { getQuizHistory } from '../../utils/quizHistory';
+import {
+  DEFAULT_DAILY_GOAL,
+  getDailyActivity,
+  getGoalProgress,
+  getStreakSummary,
+  toDayKey
+} from '../../utils/activity';
+import { DailyGoal, DailyGoalType } from '../../types/preferences';
+
+const RING_SIZE = 120;
+const RING_STROKE = 10;
+
+const GOAL_LABELS: { [key in DailyGoalType]: string } = {
+  reviews: 'words reviewed',
+  words: 'new words',
+};
+
+const ProgressRing: React.FC<{ progress: number; children?: React.ReactNode }> = ({ progress, children }) => {
+  const radius = (RING_SIZE - RING_STROKE) / 2;
+  const circumference = 2 * Math.PI * radius;
+  const clamped = Math.min(1, Math.max(0, progress));
+
+  return (
+    <div className="relative" style={{ width: RING_SIZE, height: RING_SIZE }}>
+      <svg width={RING_SIZE} height={RING_SIZE} className="-rotate-90" aria-hidden="true">
+        <circle
+          cx={RING_SIZE / 2}
+          cy={RING_SIZE / 2}
+          r={radius}
+          fill="none"
+          strokeWidth={RING_STROKE}
+          className="stroke-gray-200"
+        />
+        <circle
+          cx={RING_SIZE / 2}
+          cy={RING_SIZE / 2}
+          r={radius}
+          fill="none"
+          strokeWidth={RING_STROKE}
+          strokeLinecap="round"
+          strokeDasharray={circumference}
+          strokeDashoffset={circumference * (1 - clamped)}
+          className={`transition-all duration-500 ${clamped >= 1 ? 'stroke-green-500' : 'stroke-primary-600'}`}
+        />
+      </svg>
+      <div className="absolute inset-0 flex flex-col items-center justify-center">
+        {children}
+      </div>
+    </div>
+  );
+};
+
+const formatDay = (key: string) => {
+  const [year, month, day] = key.split('-').map(Number);
+  return new Date(year, month - 1, day).toLocaleDateString(undefined, { weekday: 'long', month: 'short', day: 'numeric' });
+};
+
+// Today's progress toward the daily goal and the current learning streak.
+// Any review, quiz or new word keeps the streak going.
+const StreakCard: React.FC = () => {
+  const { user, updateUser } = useAuth();
+  const { data: entries } = useVocabularyEntries();
+  const goal: DailyGoal = { ...DEFAULT_DAILY_GOAL, ...user?.preferences?.dailyGoal };
+  const [isEditing, setIsEditing] = useState(false);
+  const [goalType, setGoalType] = useState<DailyGoalType>(goal.type);
+  const [goalTarget, setGoalTarget] = useState(goal.target);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const activity = useMemo(() => getDailyActivity(getQuizHistory(user?.id), entries), [user?.id, entries]);
+  const streak = useMemo(() => getStreakSummary(activity), [activity]);
+  const done = getGoalProgress(activity[toDayKey(new Date())], goal);
+
+  const startEditing = () => {
+    setGoalType(goal.type);
+    setGoalTarget(goal.target);
+    setIsEditing(true);
+  };
+
+  const saveGoal = async () => {
+    setIsSaving(true);
+    try {
+      await updateUser({
+        preferences: {
+          ...user?.preferences,
+          dailyGoal: { type: goalType, target: Math.max(1, Math.round(goalTarget) || 1) }
+        }
+      });
+      setIsEditing(false);
+    } catch (error) {
+      // updateUser already reports the failure
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="card">
+      <div className="card-header">
+        <div className="flex items-center justify-between">
+          <h3 className="text-lg font-medium text-gray-900">Daily Goal</h3>
+          {!isEditing && (
+            <button
+              onClick={startEditing}
+              className="text-sm text-primary-600 hover:text-primary-500 flex items-center"
+            >
+              <Pencil className="mr-1 h-4 w-4" />
+              Edit goal
+            </button>
+          )}
+        </div>
+      </div>
+      <div className="card-body">
+        {isEditing && (
+          <div className="mb-6 flex flex-col sm:flex-row sm:items-end gap-3">
+            <div>
+              <label htmlFor="daily-goal-target" className="block text-sm font-medium text-gray-700 mb-1">
+                Target
+              </label>
+              <input
+                id="daily-goal-target"
+                type="number"
+                min={1}
+                max={500}
+                value={goalTarget}
+                onChange={(e) => setGoalTarget(Number(e.target.value))}
+                className="input w-28"
+              />
+            </div>
+            <div>
+              <label htmlFor="daily-goal-type" className="block text-sm font-medium text-gray-700 mb-1">
+                Per day
+              </label>
+              <select
+                id="daily-goal-type"
+                value={goalType}
+                onChange={(e) => setGoalType(e.target.value as DailyGoalType)}
+                className="input"
+              >
+                <option value="reviews">Words reviewed</option>
+                <option value="words">New words added</option>
+              </select>
+            </div>
+            <div className="flex space-x-2">
+              <button onClick={() => setIsEditing(false)} className="btn-secondary">
+                Cancel
+              </button>
+              <button onClick={saveGoal} disabled={isSaving} className="btn-primary">
+                {isSaving ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Save className="mr-2 h-4 w-4" />}
+                Save
+              </button>
+            </div>
+          </div>
+        )}
+
+        <div className="flex flex-col sm:flex-row sm:items-center gap-6">
+          <div
+            role="progressbar"
+            aria-valuemin={0}
+            aria-valuemax={goal.target}
+            aria-valuenow={Math.min(done, goal.target)}
+            aria-label={`Daily goal: ${done} of ${goal.target} ${GOAL_LABELS[goal.type]}`}
+          >
+            <ProgressRing progress={done / goal.target}>
+              <span className="text-2xl font-bold text-gray-900">{done}</span>
+              <span className="text-xs text-gray-500">of {goal.target}</span>
+            </ProgressRing>
+          </div>
+
+          <div className="flex-1 space-y-3">
+            <p className="text-sm text-gray-600">
+              {done >= goal.target
+                ? 'Goal reached for today. Nice work!'
+                : `${goal.target - done} more ${GOAL_LABELS[goal.type]} to reach today's goal.`}
+            </p>
+            <div className="flex items-center space-x-6">
+              <div className="flex items-center">
+                <Flame className={`h-8 w-8 ${streak.current > 0 ? 'text-orange-500' : 'text-gray-300'}`} />
+                <div className="ml-2">
+                  <p className="text-2xl font-bold text-gray-900">
+                    {streak.current} day{streak.current === 1 ? '' : 's'}
+                  </p>
+                  <p className="text-xs text-gray-500">Current streak</p>
+                </div>
+              </div>
+              <div>
+                <p className="text-2xl font-bold text-gray-900">
+                  {streak.longest} day{streak.longest === 1 ? '' : 's'}
+                </p>
+                <p className="text-xs text-gray-500">Longest streak</p>
+              </div>
+            </div>
+            {streak.atRisk ? (
+              <p className="text-sm text-orange-600">
+                You missed yesterday. Study today to keep your streak going.
+              </p>
+            ) : !streak.activeToday && streak.current > 0 && (
+              <p className="text-sm text-gray-500">Review a word or add a new one to extend your streak today.</p>
+            )}
+            {streak.frozenDays.length > 0 && (
+              <p className="text-xs text-blue-600 flex items-center">
+                <Snowflake className="mr-1 h-4 w-4" />
+                A freeze day covered {streak.frozenDays.map(formatDay).join(', ')}
+              </p>
+            )}
+            <p className="text-xs text-gray-400">
+              One missed day a week is covered by a freeze; any other missed day resets the streak.
+            </p>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default StreakCard;
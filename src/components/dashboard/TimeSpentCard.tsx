@@ -0,0 +1,55 @@
+import React, { useMemo } from 'react';
+import { Clock } from 'lucide-react';
+import { useAuth } from '../../contexts/AuthContext';
+import { TRACKED_ACTIVITIES, formatDuration, getTimeLog, getTimeSummary } from '../../utils/timeTracking';
+
+// Active time on the Quiz, Vocabulary and Add Word pages, from the local log
+// kept by useActivityTracker
+const TimeSpentCard: React.FC = () => {
+  const { user } = useAuth();
+  const summary = useMemo(() => getTimeSummary(getTimeLog(user?.id)), [user?.id]);
+
+  return (
+    <div className="card">
+      <div className="card-body">
+        <div className="flex items-center">
+          <div className="flex-shrink-0">
+            <Clock className="h-8 w-8 text-blue-400" />
+          </div>
+          <div className="ml-4">
+            <p className="text-sm font-medium text-gray-500">Time Spent Learning</p>
+            <p className="text-2xl font-bold text-gray-900">
+              {formatDuration(summary.today)}
+              <span className="ml-1 text-sm font-normal text-gray-500">today</span>
+            </p>
+          </div>
+        </div>
+        <div className="mt-3 flex justify-between text-xs text-gray-500">
+          <span>This week: <span className="font-medium text-gray-700">{formatDuration(summary.week)}</span></span>
+          <span>All time: <span className="font-medium text-gray-700">{formatDuration(summary.allTime)}</span></span>
+        </div>
+        {summary.allTime > 0 && (
+          <div className="mt-3 space-y-1">
+            {TRACKED_ACTIVITIES.map(activity => {
+              const seconds = summary.byActivity[activity.value] || 0;
+              return (
+                <div key={activity.value} className="flex items-center text-xs text-gray-600">
+                  <span className="w-24">{activity.label}</span>
+                  <div className="flex-1 bg-gray-200 rounded-full h-1.5 mx-2">
+                    <div
+                      className="bg-blue-400 h-1.5 rounded-full"
+                      style={{ width: `${(seconds / summary.allTime) * 100}%` }}
+                    />
+                  </div>
+                  <span className="w-14 text-right">{formatDuration(seconds)}</span>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default TimeSpentCard;
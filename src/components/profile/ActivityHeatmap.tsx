@@ -0,0 +1,231 @@
+import React, { useMemo, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { useAuth } from '../../contexts/AuthContext';
+import { useVocabularyEntries } from '../../hooks/useVocabularyEntries';
+import { getQuizHistory } from '../../utils/quizHistory';
+import { DailyActivity, addDays, getDailyActivity, toDayKey } from '../../utils/activity';
+import { getQuizTypeLabel } from '../quiz/quizTypes';
+
+type HeatmapMetric = keyof DailyActivity;
+
+const METRICS: { [metric in HeatmapMetric]: { label: string; unit: [string, string] } } = {
+  wordsAdded: { label: 'Words added', unit: ['word added', 'words added'] },
+  reviews: { label: 'Reviews', unit: ['review', 'reviews'] },
+  quizzes: { label: 'Quizzes', unit: ['quiz', 'quizzes'] },
+};
+
+const METRIC_NAMES = Object.keys(METRICS) as HeatmapMetric[];
+
+const LEVEL_CLASSES = ['fill-gray-100', 'fill-green-200', 'fill-green-400', 'fill-green-600', 'fill-green-800'];
+
+const CELL = 11;
+const GAP = 3;
+const STEP = CELL + GAP;
+const LEFT = 28;
+const TOP = 16;
+const WEEKS = 53;
+const WEEKDAY_LABELS: { [day: number]: string } = { 1: 'Mon', 3: 'Wed', 5: 'Fri' };
+
+const formatCount = (count: number, [singular, plural]: [string, string]) =>
+  `${count} ${count === 1 ? singular : plural}`;
+
+// 0 for no activity, then 1-4 in quarters of the busiest day
+const getLevel = (value: number, max: number) =>
+  value <= 0 || max <= 0 ? 0 : Math.min(4, Math.ceil((value / max) * 4));
+
+const parseDayKey = (key: string) => {
+  const [year, month, day] = key.split('-').map(Number);
+  return new Date(year, month - 1, day);
+};
+
+// A year of daily activity, one column per week, like a contribution graph
+const ActivityHeatmap: React.FC = () => {
+  const { user } = useAuth();
+  const { data: entries, isLoading } = useVocabularyEntries();
+  const [metric, setMetric] = useState<HeatmapMetric>('reviews');
+  const [selectedDay, setSelectedDay] = useState<string | null>(null);
+
+  const history = useMemo(() => getQuizHistory(user?.id), [user?.id]);
+  const activity = useMemo(() => getDailyActivity(history, entries), [history, entries]);
+
+  // Sunday-first weeks, ending with the week that contains today
+  const today = useMemo(() => new Date(), []);
+  const firstDay = useMemo(() => addDays(today, -(today.getDay() + (WEEKS - 1) * 7)), [today]);
+  const todayKey = toDayKey(today);
+
+  const days = useMemo(() => Array.from({ length: WEEKS * 7 }, (_, index) => {
+    const date = addDays(firstDay, index);
+    const key = toDayKey(date);
+    return { date, key, week: Math.floor(index / 7), weekday: index % 7, value: activity[key]?.[metric] || 0 };
+  }).filter(day => day.key <= todayKey), [firstDay, todayKey, activity, metric]);
+
+  const max = Math.max(0, ...days.map(day => day.value));
+  const total = days.reduce((sum, day) => sum + day.value, 0);
+  const unit = METRICS[metric].unit;
+
+  // A month label above the first week that starts in that month
+  const monthLabels = days
+    .filter(day => day.weekday === 0 && day.date.getDate() <= 7)
+    .map(day => ({ week: day.week, label: day.date.toLocaleDateString(undefined, { month: 'short' }) }));
+
+  // Arrow keys move the selection by a day (up/down) or a week (left/right)
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    const offsets: { [key: string]: number } = { ArrowUp: -1, ArrowDown: 1, ArrowLeft: -7, ArrowRight: 7 };
+    if (!(e.key in offsets)) return;
+    e.preventDefault();
+    const next = toDayKey(addDays(selectedDay ? parseDayKey(selectedDay) : today, offsets[e.key]));
+    if (next >= toDayKey(firstDay) && next <= todayKey) setSelectedDay(next);
+  };
+
+  const selectedWords = selectedDay
+    ? (entries || []).filter(entry => toDayKey(entry.created_at) === selectedDay)
+    : [];
+  const selectedSessions = selectedDay
+    ? history.filter(session => toDayKey(session.completedAt) === selectedDay)
+    : [];
+  const selectedReviews = selectedSessions.reduce((sum, session) => sum + session.results.length, 0);
+
+  // The cells aren't focusable one by one, so the graph reads as a single
+  // image that describes the selected day
+  const selectedValue = days.find(day => day.key === selectedDay)?.value || 0;
+  const graphLabel = [
+    `Daily activity for the last year, ${formatCount(total, unit)}.`,
+    selectedDay && `Selected ${parseDayKey(selectedDay).toLocaleDateString()}: ${formatCount(selectedValue, unit)}.`,
+    'Use the arrow keys to pick a day.',
+  ].filter(Boolean).join(' ');
+
+  return (
+    <div className="card">
+      <div className="card-header">
+        <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-3">
+          <div>
+            <h3 className="text-lg font-medium text-gray-900">Activity</h3>
+            <p className="text-sm text-gray-500">{formatCount(total, unit)} in the last year</p>
+          </div>
+          <div className="flex rounded-lg border border-gray-200 overflow-hidden" role="group" aria-label="Metric">
+            {METRIC_NAMES.map(option => (
+              <button
+                key={option}
+                onClick={() => setMetric(option)}
+                aria-pressed={metric === option}
+                className={`px-3 py-1 text-sm ${
+                  metric === option ? 'bg-primary-600 text-white' : 'bg-white text-gray-600 hover:bg-gray-50'
+                }`}
+              >
+                {METRICS[option].label}
+              </button>
+            ))}
+          </div>
+        </div>
+      </div>
+      <div className="card-body">
+        {isLoading ? (
+          <div className="flex items-center justify-center h-32">
+            <div className="spinner w-8 h-8"></div>
+          </div>
+        ) : (
+          <>
+            <div className="overflow-x-auto">
+              <svg
+                width={LEFT + WEEKS * STEP}
+                height={TOP + 7 * STEP}
+                role="img"
+                aria-label={graphLabel}
+                tabIndex={0}
+                onKeyDown={handleKeyDown}
+                className="focus:outline-none focus:ring-2 focus:ring-primary-300 rounded"
+              >
+                {monthLabels.map(month => (
+                  <text key={month.week} x={LEFT + month.week * STEP} y={TOP - 5} className="fill-gray-500 text-[10px]">
+                    {month.label}
+                  </text>
+                ))}
+                {Object.keys(WEEKDAY_LABELS).map(weekday => (
+                  <text
+                    key={weekday}
+                    x={0}
+                    y={TOP + Number(weekday) * STEP + CELL - 2}
+                    className="fill-gray-500 text-[10px]"
+                  >
+                    {WEEKDAY_LABELS[Number(weekday)]}
+                  </text>
+                ))}
+                {days.map(day => (
+                  <rect
+                    key={day.key}
+                    x={LEFT + day.week * STEP}
+                    y={TOP + day.weekday * STEP}
+                    width={CELL}
+                    height={CELL}
+                    rx={2}
+                    onClick={() => setSelectedDay(day.key === selectedDay ? null : day.key)}
+                    className={`cursor-pointer ${LEVEL_CLASSES[getLevel(day.value, max)]} ${
+                      day.key === selectedDay ? 'stroke-primary-600' : day.key === todayKey ? 'stroke-gray-400' : ''
+                    }`}
+                    strokeWidth={day.key === selectedDay ? 2 : 1}
+                  >
+                    <title>{`${formatCount(day.value, unit)} on ${day.date.toLocaleDateString()}`}</title>
+                  </rect>
+                ))}
+              </svg>
+            </div>
+
+            <div className="mt-2 flex items-center justify-end space-x-1 text-xs text-gray-500">
+              <span>Less</span>
+              {LEVEL_CLASSES.map(levelClass => (
+                <svg key={levelClass} width={CELL} height={CELL} aria-hidden="true">
+                  <rect width={CELL} height={CELL} rx={2} className={levelClass} />
+                </svg>
+              ))}
+              <span>More</span>
+            </div>
+
+            {selectedDay && (
+              <div className="mt-4 border-t border-gray-200 pt-4" aria-live="polite">
+                <h4 className="text-sm font-medium text-gray-900 mb-2">
+                  {parseDayKey(selectedDay).toLocaleDateString(undefined, {
+                    weekday: 'long', year: 'numeric', month: 'long', day: 'numeric'
+                  })}
+                </h4>
+                {selectedWords.length === 0 && selectedSessions.length === 0 ? (
+                  <p className="text-sm text-gray-500">No activity on this day.</p>
+                ) : (
+                  <div className="space-y-3 text-sm">
+                    {selectedWords.length > 0 && (
+                      <div>
+                        <p className="font-medium text-gray-700">{formatCount(selectedWords.length, METRICS.wordsAdded.unit)}</p>
+                        <p className="text-gray-600">{selectedWords.map(entry => entry.word).join(', ')}</p>
+                      </div>
+                    )}
+                    {selectedSessions.length > 0 && (
+                      <div>
+                        <p className="font-medium text-gray-700">
+                          {formatCount(selectedSessions.length, METRICS.quizzes.unit)}, {formatCount(selectedReviews, METRICS.reviews.unit)}
+                        </p>
+                        <ul className="mt-1 space-y-1">
+                          {selectedSessions.map(session => (
+                            <li key={session.id}>
+                              <Link to={`/quiz/history/${session.id}`} className="text-primary-600 hover:text-primary-800">
+                                {getQuizTypeLabel(session.quizType)}
+                              </Link>
+                              <span className="text-gray-500">
+                                {' '}· {session.correctAnswers}/{session.totalQuestions} correct at{' '}
+                                {new Date(session.completedAt).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+                              </span>
+                            </li>
+                          ))}
+                        </ul>
+                      </div>
+                    )}
+                  </div>
+                )}
+              </div>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ActivityHeatmap;
@@ -0,0 +1,198 @@
+import React, { useState } from 'react';
+import { Edit, Loader2, Plus, Trash2 } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { useTags } from '../../hooks/useTags';
+import { TagColor } from '../../types/preferences';
+import { TAG_COLORS, TAG_COLOR_NAMES, normalizeTagName } from '../../utils/tags';
+
+const countWords = (count: number) => `${count} word${count === 1 ? '' : 's'}`;
+
+const ColorSelect: React.FC<{ value: TagColor; onChange: (color: TagColor) => void; label: string; disabled?: boolean }> = ({
+  value,
+  onChange,
+  label,
+  disabled
+}) => (
+  <div className="flex items-center">
+    <span className={`h-4 w-4 rounded-full mr-2 ${TAG_COLORS[value].swatch}`} aria-hidden="true" />
+    <select
+      value={value}
+      onChange={(e) => onChange(e.target.value as TagColor)}
+      disabled={disabled}
+      className="text-sm border border-gray-300 rounded px-2 py-1 capitalize"
+      aria-label={label}
+    >
+      {TAG_COLOR_NAMES.map(color => (
+        <option key={color} value={color}>{color}</option>
+      ))}
+    </select>
+  </div>
+);
+
+// Create, rename, merge, recolor and delete the user's tags
+const TagManager: React.FC = () => {
+  const { tags, getTagColor, getTagCount, createTag, recolorTag, renameTag, deleteTag } = useTags();
+  const [newName, setNewName] = useState('');
+  const [newColor, setNewColor] = useState<TagColor>('blue');
+  const [editingTag, setEditingTag] = useState<string | null>(null);
+  const [editName, setEditName] = useState('');
+  const [busyTag, setBusyTag] = useState<string | null>(null);
+
+  // useTags and updateUser already report failures
+  const run = async (tag: string, action: () => Promise<unknown>) => {
+    setBusyTag(tag);
+    try {
+      await action();
+    } catch (error) {
+      console.warn('Tag change failed:', error);
+    } finally {
+      setBusyTag(null);
+    }
+  };
+
+  const handleCreate = (e: React.FormEvent) => {
+    e.preventDefault();
+    const name = normalizeTagName(newName);
+    if (!name) return;
+    if (tags.some(tag => tag.name === name)) {
+      toast.error(`"${name}" already exists`);
+      return;
+    }
+    run(name, async () => {
+      await createTag(name, newColor);
+      setNewName('');
+    });
+  };
+
+  const handleRename = (from: string) => {
+    const to = normalizeTagName(editName);
+    if (!to || to === from) {
+      setEditingTag(null);
+      return;
+    }
+    const isMerge = tags.some(tag => tag.name === to);
+    if (isMerge && !window.confirm(
+      `"${to}" already exists. Merge "${from}" into it? ${countWords(getTagCount(from))} will be tagged "${to}".`
+    )) return;
+
+    run(from, async () => {
+      const { succeeded } = await renameTag(from, to);
+      setEditingTag(null);
+      toast.success(`${isMerge ? 'Merged' : 'Renamed'} "${from}" into "${to}" on ${countWords(succeeded.length)}`);
+    });
+  };
+
+  const handleDelete = (name: string) => {
+    if (!window.confirm(`Delete the tag "${name}"? It will be removed from ${countWords(getTagCount(name))}.`)) return;
+
+    run(name, async () => {
+      const { succeeded } = await deleteTag(name);
+      toast.success(`Deleted "${name}" from ${countWords(succeeded.length)}`);
+    });
+  };
+
+  return (
+    <div className="card">
+      <div className="card-header">
+        <h3 className="text-lg font-medium text-gray-900">Tags</h3>
+        <p className="text-sm text-gray-500">
+          Organize your words with your own tags. Renaming a tag to an existing one merges them.
+        </p>
+      </div>
+      <div className="card-body space-y-4">
+        <form onSubmit={handleCreate} className="flex flex-col sm:flex-row sm:items-center gap-3">
+          <input
+            type="text"
+            value={newName}
+            onChange={(e) => setNewName(e.target.value)}
+            placeholder="New tag name"
+            className="input sm:max-w-xs"
+            aria-label="New tag name"
+          />
+          <ColorSelect value={newColor} onChange={setNewColor} label="New tag color" />
+          <button type="submit" disabled={!newName.trim() || !!busyTag} className="btn-primary disabled:opacity-50">
+            <Plus className="mr-2 h-4 w-4" />
+            Add Tag
+          </button>
+        </form>
+
+        <ul className="divide-y divide-gray-200">
+          {tags.map(tag => (
+            <li key={tag.name} className="flex flex-col sm:flex-row sm:items-center justify-between gap-2 py-3">
+              {editingTag === tag.name ? (
+                <form
+                  onSubmit={(e) => {
+                    e.preventDefault();
+                    handleRename(tag.name);
+                  }}
+                  className="flex items-center gap-2"
+                >
+                  <input
+                    type="text"
+                    value={editName}
+                    onChange={(e) => setEditName(e.target.value)}
+                    className="input py-1 text-sm"
+                    aria-label={`New name for ${tag.name}`}
+                    autoFocus
+                  />
+                  <button
+                    type="submit"
+                    disabled={!!busyTag}
+                    className="text-xs bg-green-600 text-white px-2 py-1 rounded hover:bg-green-700"
+                  >
+                    Save
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => setEditingTag(null)}
+                    className="text-xs bg-gray-600 text-white px-2 py-1 rounded hover:bg-gray-700"
+                  >
+                    Cancel
+                  </button>
+                </form>
+              ) : (
+                <div className="flex items-center">
+                  <span className={`inline-flex items-center px-2 py-1 rounded-full text-xs font-medium ${getTagColor(tag.name)}`}>
+                    {tag.name}
+                  </span>
+                  <span className="ml-3 text-sm text-gray-500">{countWords(getTagCount(tag.name))}</span>
+                </div>
+              )}
+
+              <div className="flex items-center space-x-3">
+                {busyTag === tag.name && <Loader2 className="h-4 w-4 animate-spin text-gray-400" />}
+                <ColorSelect
+                  value={tag.color}
+                  onChange={(color) => run(tag.name, () => recolorTag(tag.name, color))}
+                  label={`Color of ${tag.name}`}
+                  disabled={!!busyTag}
+                />
+                <button
+                  onClick={() => {
+                    setEditingTag(tag.name);
+                    setEditName(tag.name);
+                  }}
+                  disabled={!!busyTag}
+                  className="text-indigo-600 hover:text-indigo-900 disabled:opacity-50"
+                  title="Rename or merge"
+                >
+                  <Edit className="h-4 w-4" />
+                </button>
+                <button
+                  onClick={() => handleDelete(tag.name)}
+                  disabled={!!busyTag}
+                  className="text-red-600 hover:text-red-900 disabled:opacity-50"
+                  title="Delete"
+                >
+                  <Trash2 className="h-4 w-4" />
+                </button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      </div>
+    </div>
+  );
+};
+
+export default TagManager;
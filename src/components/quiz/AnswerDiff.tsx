@@ -0,0 +1,45 @@
+import React from 'react';
+import { diffAnswer } from '../../utils/fuzzyMatch';
+
+interface AnswerDiffProps {
+  answer: string;
+  expected: string;
+}
+
+// Shows a typed answer with typos highlighted against the expected spelling
+const AnswerDiff: React.FC<AnswerDiffProps> = ({ answer, expected }) => {
+  const ops = diffAnswer(answer, expected);
+
+  return (
+    <span className="font-mono tracking-wide" aria-label={`You typed ${answer}, expected ${expected}`}>
+      {ops.map((op, index) => {
+        switch (op.type) {
+          case 'equal':
+            return <span key={index} className="text-gray-900">{op.char}</span>;
+          case 'missing':
+            return (
+              <span key={index} className="text-green-700 bg-green-100 underline" title="Missing letter">
+                {op.char}
+              </span>
+            );
+          case 'extra':
+            return (
+              <span key={index} className="text-red-700 bg-red-100 line-through" title="Extra letter">
+                {op.char}
+              </span>
+            );
+          case 'wrong':
+            return (
+              <span key={index} className="text-red-700 bg-red-100" title={`Expected "${op.expected}"`}>
+                {op.char}
+              </span>
+            );
+          default:
+            return null;
+        }
+      })}
+    </span>
+  );
+};
+
+export default AnswerDiff;
@@ -0,0 +1,258 @@
+import React, { useState, useEffect, useCallback, useRef } from 'react';
+import { ArrowLeft, RotateCcw, Layers, Trophy } from 'lucide-react';
+import { VocabularyEntry } from '../../types/vocabulary';
+import { QuizResult } from '../../types/quiz';
+import { FlashcardGrade, FLASHCARD_QUALITY, getReviewState, scheduleReview } from '../../utils/scheduler';
+import { useSubmitQuizResults } from '../../hooks/useSubmitQuizResults';
+import { useAuth } from '../../contexts/AuthContext';
+import { addQuizHistoryEntry } from '../../utils/quizHistory';
+
+export type FlashcardDirection = 'forward' | 'reverse' | 'mixed';
+
+interface Flashcard {
+  entry: VocabularyEntry;
+  reverse: boolean;
+}
+
+interface FlashcardSessionProps {
+  entries: VocabularyEntry[];
+  direction: FlashcardDirection;
+  wordFilter: string;
+  onExit: () => void;
+}
+
+const GRADES: Array<{ grade: FlashcardGrade; label: string; className: string }> = [
+  { grade: 'again', label: 'Again', className: 'bg-red-600 hover:bg-red-700' },
+  { grade: 'hard', label: 'Hard', className: 'bg-orange-500 hover:bg-orange-600' },
+  { grade: 'good', label: 'Good', className: 'bg-green-600 hover:bg-green-700' },
+  { grade: 'easy', label: 'Easy', className: 'bg-blue-600 hover:bg-blue-700' },
+];
+
+const buildCards = (entries: VocabularyEntry[], direction: FlashcardDirection): Flashcard[] =>
+  entries.map(entry => ({
+    entry,
+    reverse: direction === 'reverse' || (direction === 'mixed' && Math.random() < 0.5),
+  }));
+
+const FlashcardSession: React.FC<FlashcardSessionProps> = ({ entries, direction, wordFilter, onExit }) => {
+  const { user } = useAuth();
+  const [cards, setCards] = useState<Flashcard[]>(() => buildCards(entries, direction));
+  const [currentIndex, setCurrentIndex] = useState(0);
+  const [revealed, setRevealed] = useState(false);
+  const [results, setResults] = useState<QuizResult[]>([]);
+  const cardShownAtRef = useRef<number>(Date.now());
+  const startedAtRef = useRef<number>(Date.now());
+
+  const submitResultsMutation = useSubmitQuizResults();
+  const isComplete = currentIndex >= cards.length;
+  const currentCard = cards[currentIndex];
+
+  useEffect(() => {
+    cardShownAtRef.current = Date.now();
+  }, [currentIndex]);
+
+  // Submit graded cards so they count toward progress and the review schedule
+  const saveResults = useCallback((sessionResults: QuizResult[]) => {
+    submitResultsMutation.mutate({ results: sessionResults, quizType: 'flashcard' });
+    addQuizHistoryEntry(user?.id, {
+      quizType: 'flashcard',
+      wordFilter,
+      startedAt: startedAtRef.current,
+      results: sessionResults,
+    });
+  }, [submitResultsMutation, wordFilter, user?.id]);
+
+  const handleGrade = useCallback((grade: FlashcardGrade) => {
+    if (!currentCard || !revealed) return;
+
+    const { entry, reverse } = currentCard;
+    const result: QuizResult = {
+      wordId: entry.id,
+      selectedAnswer: grade,
+      correct: grade !== 'again',
+      correctAnswer: reverse ? entry.word : entry.meaning,
+      word: entry.word,
+      question: reverse ? entry.meaning : entry.word,
+      responseTimeMs: Date.now() - cardShownAtRef.current,
+      schedule: scheduleReview(getReviewState(entry), FLASHCARD_QUALITY[grade]),
+    };
+
+    const nextResults = [...results, result];
+    setResults(nextResults);
+    setRevealed(false);
+    setCurrentIndex(prev => prev + 1);
+
+    if (nextResults.length === cards.length) saveResults(nextResults);
+  }, [currentCard, revealed, results, cards.length, saveResults]);
+
+  // Ending early still keeps the cards graded so far
+  const endSession = () => {
+    if (results.length > 0) saveResults(results);
+    onExit();
+  };
+
+  // Space flips the card, 1-4 grade it once revealed
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement;
+      if (isComplete || target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.tagName === 'SELECT') {
+        return;
+      }
+
+      if (e.code === 'Space') {
+        e.preventDefault();
+        setRevealed(prev => !prev);
+        return;
+      }
+
+      const gradeIndex = ['1', '2', '3', '4'].indexOf(e.key);
+      if (gradeIndex !== -1 && revealed) {
+        handleGrade(GRADES[gradeIndex].grade);
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [isComplete, revealed, handleGrade]);
+
+  const restart = () => {
+    setCards(buildCards(entries, direction));
+    startedAtRef.current = Date.now();
+    setCurrentIndex(0);
+    setRevealed(false);
+    setResults([]);
+  };
+
+  if (isComplete) {
+    const gradeCounts = GRADES.map(({ grade, label }) => ({
+      label,
+      count: results.filter(result => result.selectedAnswer === grade).length,
+    }));
+
+    return (
+      <div className="max-w-4xl mx-auto">
+        <div className="card">
+          <div className="card-body text-center py-12">
+            <Trophy className="h-16 w-16 text-yellow-500 mx-auto mb-4" />
+            <h3 className="text-2xl font-bold text-gray-900 mb-2">Session Complete!</h3>
+            <p className="text-gray-600 mb-6">
+              {submitResultsMutation.data?.message || `You reviewed ${results.length} cards.`}
+            </p>
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-8">
+              {gradeCounts.map(({ label, count }) => (
+                <div key={label} className="bg-gray-50 rounded-lg p-4">
+                  <div className="text-2xl font-bold text-gray-900">{count}</div>
+                  <div className="text-sm text-gray-600">{label}</div>
+                </div>
+              ))}
+            </div>
+            <div className="flex justify-center space-x-3">
+              <button onClick={restart} className="btn-primary">
+                <RotateCcw className="mr-2 h-4 w-4" />
+                Study Again
+              </button>
+              <button onClick={onExit} className="btn-secondary">
+                Back to Setup
+              </button>
+            </div>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  const { entry, reverse } = currentCard;
+
+  return (
+    <div className="max-w-4xl mx-auto">
+      <div className="card">
+        <div className="card-header">
+          <div className="flex items-center justify-between">
+            <div>
+              <h2 className="text-2xl font-bold text-gray-900">Flashcards</h2>
+              <p className="text-gray-600">
+                Card {currentIndex + 1} of {cards.length}
+              </p>
+            </div>
+            <button onClick={endSession} className="btn-secondary">
+              <ArrowLeft className="mr-2 h-4 w-4" />
+              End Session
+            </button>
+          </div>
+        </div>
+
+        <div className="card-body">
+          {/* Progress Bar */}
+          <div className="mb-6">
+            <div className="w-full bg-gray-200 rounded-full h-2">
+              <div
+                className="bg-primary-600 h-2 rounded-full transition-all duration-300"
+                style={{ width: `${(currentIndex / cards.length) * 100}%` }}
+              ></div>
+            </div>
+          </div>
+
+          {/* Card */}
+          <button
+            onClick={() => setRevealed(prev => !prev)}
+            className="w-full min-h-[16rem] rounded-lg border-2 border-gray-200 hover:border-primary-300 bg-white p-8 flex flex-col items-center justify-center text-center transition-colors"
+            aria-label={revealed ? 'Hide answer' : 'Show answer'}
+          >
+            <div className="flex items-center space-x-2 text-sm font-medium text-primary-700 uppercase mb-4">
+              <Layers className="h-4 w-4" />
+              <span>{reverse ? 'Meaning' : 'Word'}</span>
+            </div>
+            <p className={reverse ? 'text-xl text-gray-900' : 'text-3xl font-bold text-gray-900'}>
+              {reverse ? entry.meaning : entry.word}
+            </p>
+            {!reverse && entry.pronunciation && (
+              <p className="mt-2 text-sm text-gray-500">{entry.pronunciation}</p>
+            )}
+
+            {revealed ? (
+              <div className="mt-6 pt-6 border-t border-gray-200 w-full space-y-3">
+                <p className={reverse ? 'text-3xl font-bold text-primary-700' : 'text-xl text-gray-900'}>
+                  {reverse ? entry.word : entry.meaning}
+                </p>
+                {entry.example && (
+                  <p className="text-sm text-gray-600 italic">"{entry.example}"</p>
+                )}
+                {entry.synonyms && entry.synonyms.length > 0 && (
+                  <div className="flex flex-wrap justify-center gap-1">
+                    {entry.synonyms.slice(0, 5).map((synonym, index) => (
+                      <span
+                        key={index}
+                        className="inline-flex items-center px-2 py-1 rounded text-xs font-medium bg-green-100 text-green-800"
+                      >
+                        {synonym}
+                      </span>
+                    ))}
+                  </div>
+                )}
+              </div>
+            ) : (
+              <p className="mt-6 text-sm text-gray-400">Click or press Space to reveal</p>
+            )}
+          </button>
+
+          {/* Grading */}
+          <div className="mt-6 grid grid-cols-2 md:grid-cols-4 gap-3">
+            {GRADES.map(({ grade, label, className }, index) => (
+              <button
+                key={grade}
+                onClick={() => handleGrade(grade)}
+                disabled={!revealed}
+                className={`btn text-white ${className} disabled:opacity-50 disabled:cursor-not-allowed`}
+              >
+                {label}
+                <span className="ml-2 text-xs opacity-75">{index + 1}</span>
+              </button>
+            ))}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default FlashcardSession;
@@ -0,0 +1,163 @@
+import React, { useRef, useState } from 'react';
+import { CheckCircle, XCircle } from 'lucide-react';
+import { QuizQuestion } from '../../types/quiz';
+
+interface MatchingPairsProps {
+  question: QuizQuestion;
+  selectedAnswers: { [key: string]: string };
+  // Pair a word with a meaning, or unpair it with an empty meaning
+  onMatch: (wordId: string, meaning: string) => void;
+  // Show which pairs are right once the round has been checked
+  revealed?: boolean;
+}
+
+const PAIR_COLORS = [
+  'border-blue-400 bg-blue-50 text-blue-800',
+  'border-purple-400 bg-purple-50 text-purple-800',
+  'border-amber-400 bg-amber-50 text-amber-800',
+  'border-teal-400 bg-teal-50 text-teal-800',
+  'border-pink-400 bg-pink-50 text-pink-800',
+  'border-indigo-400 bg-indigo-50 text-indigo-800',
+];
+
+// Two columns of buttons: pick a word then a meaning (or the other way
+// round) to pair them. Picking a paired item breaks its pair.
+const MatchingPairs: React.FC<MatchingPairsProps> = ({ question, selectedAnswers, onMatch, revealed = false }) => {
+  const [activeWordId, setActiveWordId] = useState<string | null>(null);
+  const [activeMeaning, setActiveMeaning] = useState<string | null>(null);
+  const [announcement, setAnnouncement] = useState('');
+  const wordRefs = useRef<Array<HTMLButtonElement | null>>([]);
+  const meaningRefs = useRef<Array<HTMLButtonElement | null>>([]);
+
+  const pairs = question.pairs || [];
+  const meanings = question.options;
+
+  const getMeaningOwner = (meaning: string) =>
+    pairs.find(pair => selectedAnswers[pair.wordId] === meaning);
+
+  const getPairColor = (wordId: string) => {
+    const index = pairs.findIndex(pair => pair.wordId === wordId);
+    return PAIR_COLORS[index % PAIR_COLORS.length];
+  };
+
+  const pair = (wordId: string, meaning: string) => {
+    const owner = getMeaningOwner(meaning);
+    if (owner && owner.wordId !== wordId) {
+      onMatch(owner.wordId, '');
+    }
+    onMatch(wordId, meaning);
+    setActiveWordId(null);
+    setActiveMeaning(null);
+
+    const word = pairs.find(item => item.wordId === wordId)?.word;
+    setAnnouncement(`Paired ${word} with ${meaning}`);
+  };
+
+  const handleWordClick = (wordId: string) => {
+    if (revealed) return;
+    if (activeMeaning) {
+      pair(wordId, activeMeaning);
+      return;
+    }
+    if (selectedAnswers[wordId]) {
+      onMatch(wordId, '');
+    }
+    setActiveWordId(prev => (prev === wordId ? null : wordId));
+  };
+
+  const handleMeaningClick = (meaning: string) => {
+    if (revealed) return;
+    if (activeWordId) {
+      pair(activeWordId, meaning);
+      return;
+    }
+    const owner = getMeaningOwner(meaning);
+    if (owner) {
+      onMatch(owner.wordId, '');
+    }
+    setActiveMeaning(prev => (prev === meaning ? null : meaning));
+  };
+
+  // Up/Down move through a column
+  const handleColumnKeyDown = (
+    e: React.KeyboardEvent,
+    refs: React.MutableRefObject<Array<HTMLButtonElement | null>>,
+    index: number,
+    count: number
+  ) => {
+    if (e.key !== 'ArrowDown' && e.key !== 'ArrowUp') return;
+    e.preventDefault();
+    refs.current[(index + (e.key === 'ArrowDown' ? 1 : count - 1)) % count]?.focus();
+  };
+
+  return (
+    <div>
+      <div className="grid grid-cols-2 gap-4">
+        <div className="space-y-3" role="group" aria-label="Words">
+          {pairs.map((item, index) => {
+            const matchedMeaning = selectedAnswers[item.wordId];
+            const isCorrect = matchedMeaning === item.correctAnswer;
+            const stateClass = revealed
+              ? isCorrect ? 'border-green-500 bg-green-50 text-green-800' : 'border-red-500 bg-red-50 text-red-800'
+              : activeWordId === item.wordId
+                ? 'border-primary-500 bg-primary-100 text-primary-800 ring-2 ring-primary-300'
+                : matchedMeaning ? getPairColor(item.wordId) : 'border-gray-200 hover:border-gray-300 hover:bg-gray-50';
+
+            return (
+              <button
+                key={item.wordId}
+                ref={(element) => { wordRefs.current[index] = element; }}
+                onClick={() => handleWordClick(item.wordId)}
+                onKeyDown={(e) => handleColumnKeyDown(e, wordRefs, index, pairs.length)}
+                aria-pressed={activeWordId === item.wordId}
+                aria-label={matchedMeaning ? `${item.word}, paired with ${matchedMeaning}` : item.word}
+                className={`w-full p-3 text-left rounded-lg border-2 font-semibold transition-all ${stateClass}`}
+              >
+                <div className="flex items-center justify-between">
+                  <span>{item.word}</span>
+                  {revealed && (isCorrect
+                    ? <CheckCircle className="h-4 w-4 text-green-600" />
+                    : <XCircle className="h-4 w-4 text-red-600" />)}
+                </div>
+                {revealed && !isCorrect && (
+                  <p className="mt-1 text-xs font-normal text-green-700">{item.correctAnswer}</p>
+                )}
+              </button>
+            );
+          })}
+        </div>
+
+        <div className="space-y-3" role="group" aria-label="Meanings">
+          {meanings.map((meaning, index) => {
+            const owner = getMeaningOwner(meaning);
+            const stateClass = activeMeaning === meaning
+              ? 'border-primary-500 bg-primary-100 text-primary-800 ring-2 ring-primary-300'
+              : owner ? getPairColor(owner.wordId) : 'border-gray-200 hover:border-gray-300 hover:bg-gray-50';
+
+            return (
+              <button
+                key={meaning}
+                ref={(element) => { meaningRefs.current[index] = element; }}
+                onClick={() => handleMeaningClick(meaning)}
+                onKeyDown={(e) => handleColumnKeyDown(e, meaningRefs, index, meanings.length)}
+                aria-pressed={activeMeaning === meaning}
+                aria-label={owner ? `${meaning}, paired with ${owner.word}` : meaning}
+                className={`w-full p-3 text-left rounded-lg border-2 text-sm transition-all ${
+                  revealed ? 'border-gray-200 text-gray-600' : stateClass
+                }`}
+              >
+                {meaning}
+              </button>
+            );
+          })}
+        </div>
+      </div>
+
+      <div className="sr-only" role="status" aria-live="polite">
+        {announcement}
+      </div>
+    </div>
+  );
+};
+
+export default MatchingPairs;
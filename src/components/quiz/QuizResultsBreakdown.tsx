@@ -0,0 +1,129 @@
+import React from 'react';
+import { CheckCircle, XCircle } from 'lucide-react';
+import { QuizResult } from '../../types/quiz';
+import AnswerDiff from './AnswerDiff';
+
+interface QuizResultsBreakdownProps {
+  results: QuizResult[];
+}
+
+// Performance summary and per-question results, shared by the results modal
+// and the quiz history
+const QuizResultsBreakdown: React.FC<QuizResultsBreakdownProps> = ({ results }) => {
+  if (results.length === 0) return null;
+
+  return (
+    <>
+      {/* Summary */}
+      <div className="mb-6">
+        <h4 className="text-lg font-semibold text-gray-900 mb-4">Performance Summary</h4>
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-6">
+          <div className="bg-blue-50 rounded-lg p-4">
+            <h5 className="font-medium text-blue-900 mb-2">Words Mastered</h5>
+            <div className="space-y-2">
+              {results
+                .filter(result => result.correct)
+                .map((result, index) => (
+                  <div key={index} className="flex items-center space-x-2">
+                    <CheckCircle className="h-4 w-4 text-green-600" />
+                    <span className="text-sm text-blue-800 font-medium">{result.word}</span>
+                  </div>
+                ))}
+              {results.filter(result => result.correct).length === 0 && (
+                <p className="text-sm text-blue-600">No words mastered in this quiz</p>
+              )}
+            </div>
+          </div>
+          <div className="bg-red-50 rounded-lg p-4">
+            <h5 className="font-medium text-red-900 mb-2">Words to Review</h5>
+            <div className="space-y-2">
+              {results
+                .filter(result => !result.correct)
+                .map((result, index) => (
+                  <div key={index} className="flex items-center space-x-2">
+                    <XCircle className="h-4 w-4 text-red-600" />
+                    <span className="text-sm text-red-800 font-medium">{result.word}</span>
+                  </div>
+                ))}
+              {results.filter(result => !result.correct).length === 0 && (
+                <p className="text-sm text-red-600">All words answered correctly!</p>
+              )}
+            </div>
+          </div>
+        </div>
+      </div>
+
+      {/* Detailed Results */}
+      <div className="mb-6">
+        <h4 className="text-lg font-semibold text-gray-900 mb-4">Detailed Results</h4>
+        <div className="space-y-4">
+          {results.map((result, index) => (
+            <div
+              key={index}
+              className={`p-4 rounded-lg border-2 ${
+                result.correct
+                  ? 'border-green-200 bg-green-50'
+                  : 'border-red-200 bg-red-50'
+              }`}
+            >
+              <div className="flex items-start justify-between">
+                <div className="flex-1">
+                  <div className="flex items-center space-x-2 mb-2">
+                    {result.correct ? (
+                      <CheckCircle className="h-5 w-5 text-green-600" />
+                    ) : (
+                      <XCircle className="h-5 w-5 text-red-600" />
+                    )}
+                    <span className="font-medium text-gray-900">
+                      Question {index + 1}
+                    </span>
+                    <span className={`text-sm px-2 py-1 rounded-full ${
+                      result.verdict === 'almost'
+                        ? 'bg-yellow-100 text-yellow-800'
+                        : result.correct
+                          ? 'bg-green-100 text-green-800'
+                          : 'bg-red-100 text-red-800'
+                    }`}>
+                      {result.verdict === 'almost' ? 'Almost' : result.correct ? 'Correct' : 'Incorrect'}
+                    </span>
+                  </div>
+                  <p className="text-sm text-gray-700 mb-2">{result.question}</p>
+                  <div className="text-sm">
+                    <span className="font-medium text-gray-900">Word:</span>{' '}
+                    <span className="text-blue-600 font-semibold">{result.word}</span>
+                  </div>
+                  {result.verdict && result.verdict !== 'correct' && result.selectedAnswer && (
+                    <div className="mt-2 space-y-1">
+                      <div className="text-sm">
+                        <span className="font-medium text-gray-900">Your answer:</span>{' '}
+                        <AnswerDiff answer={result.selectedAnswer} expected={result.correctAnswer} />
+                      </div>
+                      <div className="text-sm">
+                        <span className="font-medium text-green-600">Correct spelling:</span>{' '}
+                        <span className="text-green-700">{result.correctAnswer}</span>
+                      </div>
+                    </div>
+                  )}
+                  {!result.correct && !(result.verdict && result.selectedAnswer) && (
+                    <div className="mt-2 space-y-1">
+                      <div className="text-sm">
+                        <span className="font-medium text-red-600">Your answer:</span>{' '}
+                        <span className="text-red-700">{result.selectedAnswer || 'No answer'}</span>
+                      </div>
+                      <div className="text-sm">
+                        <span className="font-medium text-green-600">Correct answer:</span>{' '}
+                        <span className="text-green-700">{result.correctAnswer}</span>
+                      </div>
+                    </div>
+                  )}
+                </div>
+              </div>
+            </div>
+          ))}
+        </div>
+      </div>
+    </>
+  );
+};
+
+export default QuizResultsBreakdown;
@@ -0,0 +1,51 @@
+import React from 'react';
+import {
+  AlertCircle,
+  BarChart3,
+  BookOpen,
+  Ear,
+  Headphones,
+  Keyboard,
+  Layers,
+  Link2,
+  RotateCcw,
+  Target
+} from 'lucide-react';
+
+export const getQuizTypeIcon = (type: string, className = 'h-5 w-5') => {
+  switch (type) {
+    case 'meaning': return <BookOpen className={className} />;
+    case 'synonyms': return <Target className={className} />;
+    case 'antonyms': return <RotateCcw className={className} />;
+    case 'fill-blank': return <AlertCircle className={className} />;
+    case 'typing': return <Keyboard className={className} />;
+    case 'spelling': return <Headphones className={className} />;
+    case 'listening': return <Ear className={className} />;
+    case 'match': return <Link2 className={className} />;
+    case 'mixed': return <BarChart3 className={className} />;
+    case 'flashcard': return <Layers className={className} />;
+    default: return <BookOpen className={className} />;
+  }
+};
+
+export const getQuizTypeLabel = (type: string) => {
+  switch (type) {
+    case 'meaning': return 'Word Meanings';
+    case 'synonyms': return 'Synonyms';
+    case 'antonyms': return 'Antonyms';
+    case 'fill-blank': return 'Fill in the Blank';
+    case 'typing': return 'Type the Word';
+    case 'spelling': return 'Spelling';
+    case 'listening': return 'Listening';
+    case 'match': return 'Matching Pairs';
+    case 'mixed': return 'Mixed Questions';
+    case 'flashcard': return 'Flashcards';
+    default: return 'Word Meanings';
+  }
+};
+
+export const getWordFilterLabel = (filter: string) => {
+  if (filter === 'selected') return 'Selected words';
+  if (filter === 'all') return 'All words';
+  return filter.charAt(0).toUpperCase() + filter.slice(1);
+};
@@ -2,6 +2,7 @@ import React, { createContext, useContext, useEffect, useState, ReactNode } from
 import axios from 'axios';
 import toast from 'react-hot-toast';
 import API_CONFIG from '../config/api';
+import { UserPreferences } from '../types/preferences';
 
 interface User {
   id: string;
@@ -14,7 +15,7 @@ interface User {
     learningWords: number;
     reviewWords: number;
   };
-  preferences?: any;
+  preferences?: UserPreferences;
   created_at: string;
   updated_at: string;
 }
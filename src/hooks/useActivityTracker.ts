@@ -0,0 +1,67 @@
+import { useEffect } from 'react';
+import { useAuth } from '../contexts/AuthContext';
+import { TrackedActivity, flushTimeReports, recordTime } from '../utils/timeTracking';
+
+// No input for this long counts as idle
+export const IDLE_TIMEOUT_MS = 60 * 1000;
+// How often counted time is written to the local log
+const SAVE_EVERY_SECONDS = 15;
+// How often the pending log is reported to the backend
+const REPORT_INTERVAL_MS = 60 * 1000;
+
+const INPUT_EVENTS = ['mousemove', 'mousedown', 'keydown', 'scroll', 'touchstart', 'wheel'];
+
+// Count the seconds the page is visible and in use while the calling page is
+// mounted. Hidden tabs and idle users don't count.
+export const useActivityTracker = (activity: TrackedActivity) => {
+  const { user } = useAuth();
+  const userId = user?.id;
+
+  useEffect(() => {
+    let lastInputAt = Date.now();
+    let unsavedSeconds = 0;
+
+    const save = () => {
+      recordTime(userId, activity, unsavedSeconds);
+      unsavedSeconds = 0;
+    };
+    const report = () => {
+      save();
+      flushTimeReports(userId);
+    };
+    const handleInput = () => {
+      lastInputAt = Date.now();
+    };
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === 'hidden') {
+        report();
+      } else {
+        // Coming back to the tab counts as activity
+        lastInputAt = Date.now();
+      }
+    };
+
+    const tick = setInterval(() => {
+      if (document.visibilityState === 'visible' && Date.now() - lastInputAt < IDLE_TIMEOUT_MS) {
+        unsavedSeconds += 1;
+      }
+      if (unsavedSeconds >= SAVE_EVERY_SECONDS) save();
+    }, 1000);
+    const reportInterval = setInterval(report, REPORT_INTERVAL_MS);
+
+    INPUT_EVENTS.forEach(event => window.addEventListener(event, handleInput, { passive: true }));
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+    window.addEventListener('pagehide', save);
+
+    return () => {
+      clearInterval(tick);
+      clearInterval(reportInterval);
+      INPUT_EVENTS.forEach(event => window.removeEventListener(event, handleInput));
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
+      window.removeEventListener('pagehide', save);
+      report();
+    };
+  }, [activity, userId]);
+};
+
+export default useActivityTracker;
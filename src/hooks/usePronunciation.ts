@@ -0,0 +1,94 @@
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { useAuth } from '../contexts/AuthContext';
+import { SpeechPreferences } from '../types/preferences';
+import { isSpeechSynthesisSupported, speak as speakText, stopSpeaking } from '../utils/speech';
+
+export const DEFAULT_SPEECH_PREFERENCES: SpeechPreferences = {
+  rate: 1,
+  accent: 'en-US',
+};
+
+export const ACCENT_OPTIONS = [
+  { value: 'en-US', label: 'American English' },
+  { value: 'en-GB', label: 'British English' },
+  { value: 'en-AU', label: 'Australian English' },
+  { value: 'en-IN', label: 'Indian English' },
+];
+
+// Installed voices, which some browsers only report after 'voiceschanged'
+const useSpeechVoices = () => {
+  const [voices, setVoices] = useState<SpeechSynthesisVoice[]>([]);
+
+  useEffect(() => {
+    if (!isSpeechSynthesisSupported()) return;
+
+    const loadVoices = () => setVoices(window.speechSynthesis.getVoices());
+    loadVoices();
+    window.speechSynthesis.addEventListener('voiceschanged', loadVoices);
+    return () => window.speechSynthesis.removeEventListener('voiceschanged', loadVoices);
+  }, []);
+
+  return voices;
+};
+
+// Pick the saved voice, else the first voice matching the accent
+export const selectVoice = (
+  voices: SpeechSynthesisVoice[],
+  preferences: SpeechPreferences
+): SpeechSynthesisVoice | null => {
+  const saved = voices.find(voice => voice.voiceURI === preferences.voiceURI);
+  if (saved) return saved;
+
+  const accent = preferences.accent.toLowerCase();
+  return voices.find(voice => voice.lang.replace('_', '-').toLowerCase() === accent)
+    || voices.find(voice => voice.lang.toLowerCase().startsWith(accent.split('-')[0]))
+    || null;
+};
+
+// Speak words using the user's saved voice, rate and accent
+export const usePronunciation = (overrides: Partial<SpeechPreferences> = {}) => {
+  const { user } = useAuth();
+  const voices = useSpeechVoices();
+  const [speakingText, setSpeakingText] = useState<string | null>(null);
+  const isSupported = isSpeechSynthesisSupported();
+
+  const savedPreferences = user?.preferences?.speech;
+  const { voiceURI, rate, accent } = overrides;
+  const preferences = useMemo<SpeechPreferences>(() => ({
+    ...DEFAULT_SPEECH_PREFERENCES,
+    ...savedPreferences,
+    ...(voiceURI !== undefined && { voiceURI }),
+    ...(rate !== undefined && { rate }),
+    ...(accent !== undefined && { accent }),
+  }), [savedPreferences, voiceURI, rate, accent]);
+
+  const voice = useMemo(() => selectVoice(voices, preferences), [voices, preferences]);
+
+  const speak = useCallback((text: string) => {
+    const started = speakText(text, {
+      rate: preferences.rate,
+      lang: preferences.accent,
+      voice,
+      onEnd: () => setSpeakingText(current => (current === text ? null : current)),
+    });
+    if (started) setSpeakingText(text);
+    return started;
+  }, [preferences.rate, preferences.accent, voice]);
+
+  const stop = useCallback(() => {
+    stopSpeaking();
+    setSpeakingText(null);
+  }, []);
+
+  return {
+    isSupported,
+    voices,
+    voice,
+    preferences,
+    speak,
+    stop,
+    speakingText,
+  };
+};
+
+export default usePronunciation;
@@ -0,0 +1,179 @@
+import { useState, useEffect, useRef, useCallback } from 'react';
+
+// Minimal typings for the Web Speech recognition API, which isn't part of
+// the DOM lib and is still prefixed in Chromium browsers
+interface SpeechRecognitionAlternative {
+  transcript: string;
+}
+
+interface SpeechRecognitionResult {
+  isFinal: boolean;
+  length: number;
+  [index: number]: SpeechRecognitionAlternative;
+}
+
+interface SpeechRecognitionEvent {
+  resultIndex: number;
+  results: {
+    length: number;
+    [index: number]: SpeechRecognitionResult;
+  };
+}
+
+interface SpeechRecognitionErrorEvent {
+  error: string;
+}
+
+interface SpeechRecognitionInstance {
+  lang: string;
+  continuous: boolean;
+  interimResults: boolean;
+  onresult: ((event: SpeechRecognitionEvent) => void) | null;
+  onerror: ((event: SpeechRecognitionErrorEvent) => void) | null;
+  onend: (() => void) | null;
+  start: () => void;
+  stop: () => void;
+  abort: () => void;
+}
+
+type SpeechRecognitionConstructor = new () => SpeechRecognitionInstance;
+
+// Chrome and Safari only expose the prefixed constructor
+interface SpeechRecognitionWindow extends Window {
+  SpeechRecognition?: SpeechRecognitionConstructor;
+  webkitSpeechRecognition?: SpeechRecognitionConstructor;
+}
+
+const getRecognitionConstructor = (): SpeechRecognitionConstructor | null => {
+  if (typeof window === 'undefined') return null;
+  const speechWindow: SpeechRecognitionWindow = window;
+  return speechWindow.SpeechRecognition || speechWindow.webkitSpeechRecognition || null;
+};
+
+export const isSpeechRecognitionSupported = () => getRecognitionConstructor() !== null;
+
+export type RecognitionState = 'idle' | 'listening' | 'paused';
+
+const ERROR_MESSAGES: { [key: string]: string } = {
+  'not-allowed': 'Microphone access was denied',
+  'service-not-allowed': 'Speech recognition is not allowed in this browser',
+  'audio-capture': 'No microphone was found',
+  'network': 'Speech recognition needs a network connection',
+};
+
+// Dictation with interim results. Browsers end recognition after a pause in
+// speech, so the session is restarted until the user pauses or stops it.
+export const useSpeechRecognition = ({ lang }: { lang: string }) => {
+  const [state, setState] = useState<RecognitionState>('idle');
+  const [transcript, setTranscript] = useState('');
+  const [interimTranscript, setInterimTranscript] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const recognitionRef = useRef<SpeechRecognitionInstance | null>(null);
+  const desiredStateRef = useRef<RecognitionState>('idle');
+
+  const startSession = useCallback(() => {
+    const Recognition = getRecognitionConstructor();
+    if (!Recognition) return;
+
+    const recognition = new Recognition();
+    recognition.lang = lang;
+    recognition.continuous = true;
+    recognition.interimResults = true;
+
+    recognition.onresult = (event) => {
+      let finalText = '';
+      let interimText = '';
+      for (let i = event.resultIndex; i < event.results.length; i++) {
+        const result = event.results[i];
+        if (result.isFinal) {
+          finalText += result[0].transcript;
+        } else {
+          interimText += result[0].transcript;
+        }
+      }
+
+      if (finalText) {
+        setTranscript(prev => `${prev} ${finalText}`.trim());
+      }
+      setInterimTranscript(interimText);
+    };
+
+    recognition.onerror = (event) => {
+      // 'no-speech' and 'aborted' happen during normal use
+      if (event.error === 'no-speech' || event.error === 'aborted') return;
+      setError(ERROR_MESSAGES[event.error] || 'Speech recognition failed');
+      desiredStateRef.current = 'idle';
+      setState('idle');
+    };
+
+    recognition.onend = () => {
+      setInterimTranscript('');
+      if (desiredStateRef.current === 'listening' && recognitionRef.current === recognition) {
+        recognition.start();
+      }
+    };
+
+    recognitionRef.current = recognition;
+    recognition.start();
+  }, [lang]);
+
+  const start = useCallback(() => {
+    setError(null);
+    desiredStateRef.current = 'listening';
+    setState('listening');
+    startSession();
+  }, [startSession]);
+
+  const pause = useCallback(() => {
+    desiredStateRef.current = 'paused';
+    setState('paused');
+    recognitionRef.current?.stop();
+  }, []);
+
+  const stop = useCallback(() => {
+    desiredStateRef.current = 'idle';
+    setState('idle');
+    recognitionRef.current?.stop();
+  }, []);
+
+  const reset = useCallback(() => {
+    setTranscript('');
+    setInterimTranscript('');
+    setError(null);
+  }, []);
+
+  // Restart with the new language if it changes mid-dictation
+  useEffect(() => {
+    if (desiredStateRef.current !== 'listening') return;
+    const previous = recognitionRef.current;
+    recognitionRef.current = null;
+    previous?.abort();
+    startSession();
+  }, [startSession]);
+
+  // Release the microphone on unmount
+  useEffect(() => {
+    return () => {
+      desiredStateRef.current = 'idle';
+      recognitionRef.current?.abort();
+      recognitionRef.current = null;
+    };
+  }, []);
+
+  return {
+    isSupported: isSpeechRecognitionSupported(),
+    state,
+    transcript,
+    interimTranscript,
+    error,
+    start,
+    pause,
+    resume: start,
+    stop,
+    reset,
+    setTranscript,
+  };
+};
+
+export default useSpeechRecognition;
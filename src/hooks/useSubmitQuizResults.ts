@@ -0,0 +1,38 @@
+import { useMutation, useQueryClient } from 'react-query';
+import axios from 'axios';
+import toast from 'react-hot-toast';
+import { QuizResult } from '../types/quiz';
+
+export interface SubmitQuizResultsResponse {
+  message: string;
+  correctAnswers: number;
+  totalQuestions: number;
+}
+
+// Submit a finished session to the results endpoint so it counts toward
+// progress and stats, whatever study mode produced it
+export const useSubmitQuizResults = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation(
+    async ({ results, quizType }: { results: QuizResult[]; quizType: string }) => {
+      const response = await axios.post<SubmitQuizResultsResponse>('/vocabulary/quiz/results', {
+        results,
+        quizType
+      });
+      return response.data;
+    },
+    {
+      onSuccess: (data) => {
+        toast.success(data.message);
+        queryClient.invalidateQueries('vocabulary');
+        queryClient.invalidateQueries('vocabularyStats');
+      },
+      onError: () => {
+        toast.error('Failed to submit quiz results');
+      }
+    }
+  );
+};
+
+export default useSubmitQuizResults;
@@ -0,0 +1,107 @@
+import { useCallback, useMemo, useRef } from 'react';
+import { useQueryClient } from 'react-query';
+import axios from 'axios';
+import toast from 'react-hot-toast';
+import { useAuth } from '../contexts/AuthContext';
+import { TagColor, TagDefinition } from '../types/preferences';
+import { fetchEntries } from './useVocabularyEntries';
+import { useVocabularyStats } from './useVocabularyStats';
+import { runBulk } from '../utils/bulk';
+import { getTagBadgeClass, getTagList } from '../utils/tags';
+
+// The user's tags with their colors, plus every tag found on their words.
+// Tag pickers, filters and badges all read tags from here.
+export const useTags = () => {
+  const { user, updateUser } = useAuth();
+  const queryClient = useQueryClient();
+  const { data: stats } = useVocabularyStats();
+
+  const saved = user?.preferences?.tags;
+  const tags = useMemo(
+    () => getTagList(saved, stats?.tagStats?.map(stat => stat._id)),
+    [saved, stats]
+  );
+
+  const getTagColor = useCallback(
+    (name: string) => getTagBadgeClass(tags.find(tag => tag.name === name)?.color),
+    [tags]
+  );
+
+  const getTagCount = (name: string) => stats?.tagStats?.find(stat => stat._id === name)?.count || 0;
+
+  // Saves run one at a time and each builds on the list the previous one
+  // saved, so tags changed in quick succession don't overwrite each other
+  const saveQueue = useRef<Promise<unknown>>(Promise.resolve());
+  const latestTags = useRef<TagDefinition[] | null>(null);
+
+  const saveTags = (update: (current: TagDefinition[]) => TagDefinition[]) => {
+    const save = saveQueue.current
+      .catch(() => undefined)
+      .then(() => {
+        const definitions = update(latestTags.current || tags);
+        latestTags.current = definitions;
+        return updateUser({ preferences: { ...user?.preferences, tags: definitions } });
+      })
+      .catch(error => {
+        latestTags.current = null;
+        throw error;
+      })
+      .finally(() => {
+        // Once idle, the saved list comes from the user again
+        if (saveQueue.current === save) latestTags.current = null;
+      });
+    saveQueue.current = save;
+    return save;
+  };
+
+  // Rewrite the tags of every word carrying the given tag. Failures are
+  // reported here; saving the tag list reports through updateUser.
+  const updateWordsWithTag = async (name: string, transform: (wordTags: string[]) => string[]) => {
+    let entries;
+    try {
+      entries = await fetchEntries({ tag: name });
+    } catch (error) {
+      const message = axios.isAxiosError<{ error?: string }>(error) ? error.response?.data?.error : undefined;
+      toast.error(message || 'Failed to load words with this tag');
+      throw error;
+    }
+
+    const result = await runBulk(entries, entry =>
+      axios.put(`/vocabulary/${entry.id}`, { tags: transform(entry.tags) })
+    );
+    queryClient.invalidateQueries('vocabulary');
+    queryClient.invalidateQueries('vocabularyStats');
+    queryClient.invalidateQueries('recentWords');
+    if (result.failed.length > 0) {
+      toast.error(`${result.failed.length} word${result.failed.length === 1 ? '' : 's'} could not be updated`);
+    }
+    return result;
+  };
+
+  const createTag = (name: string, color: TagColor) =>
+    saveTags(current => current.some(tag => tag.name === name) ? current : [...current, { name, color }]);
+
+  const recolorTag = (name: string, color: TagColor) =>
+    saveTags(current => current.map(tag => tag.name === name ? { ...tag, color } : tag));
+
+  // Renaming to a tag that already exists merges the two
+  const renameTag = async (from: string, to: string) => {
+    const result = await updateWordsWithTag(from, wordTags =>
+      Array.from(new Set(wordTags.map(tag => tag === from ? to : tag)))
+    );
+    await saveTags(current => current.some(tag => tag.name === to)
+      ? current.filter(tag => tag.name !== from)
+      : current.map(tag => tag.name === from ? { ...tag, name: to } : tag));
+    return result;
+  };
+
+  const deleteTag = async (name: string) => {
+    const result = await updateWordsWithTag(name, wordTags => wordTags.filter(tag => tag !== name));
+    await saveTags(current => current.filter(tag => tag.name !== name));
+    return result;
+  };
+
+  return { tags, getTagColor, getTagCount, createTag, recolorTag, renameTag, deleteTag };
+};
+
+export default useTags;
@@ -0,0 +1,120 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import toast from 'react-hot-toast';
+
+// How long a change can be undone before it is sent to the server
+export const UNDO_DELAY_MS = 5000;
+
+export interface UndoableChange {
+  // Identifies the changed item, e.g. the word id, or all items of a bulk change
+  key: string | string[];
+  message: string;
+  // Update the UI straight away and return a function that reverts it
+  apply: () => () => void;
+  // Send the change; a rejected commit is reverted in the UI
+  commit: () => Promise<unknown>;
+}
+
+const keysOf = (change: UndoableChange) => Array.isArray(change.key) ? change.key : [change.key];
+
+interface PendingChange extends UndoableChange {
+  id: number;
+  revert: () => void;
+  timer: ReturnType<typeof setTimeout>;
+  toastId: string;
+}
+
+// Changes are applied locally at once but only sent to the server once their
+// undo window has passed, so undoing one never has to touch the server.
+// Pending changes are sent early when the page is left.
+export const useUndoStack = () => {
+  const stack = useRef<PendingChange[]>([]);
+  const nextId = useRef(1);
+  // Commits still waiting on the server count as pending too
+  const sending = useRef(0);
+  const [pendingCount, setPendingCount] = useState(0);
+
+  const updatePendingCount = useCallback(() => {
+    setPendingCount(stack.current.length + sending.current);
+  }, []);
+
+  const take = useCallback((change: PendingChange) => {
+    clearTimeout(change.timer);
+    toast.dismiss(change.toastId);
+    stack.current = stack.current.filter(item => item.id !== change.id);
+    updatePendingCount();
+  }, [updatePendingCount]);
+
+  const commit = useCallback(async (change: PendingChange) => {
+    take(change);
+    sending.current += 1;
+    updatePendingCount();
+    try {
+      await change.commit();
+    } catch (error) {
+      change.revert();
+    } finally {
+      sending.current -= 1;
+      updatePendingCount();
+    }
+  }, [take, updatePendingCount]);
+
+  // Undo the given change, or the latest one
+  const undo = useCallback((id?: number) => {
+    const change = id === undefined
+      ? stack.current[stack.current.length - 1]
+      : stack.current.find(item => item.id === id);
+    if (!change) return;
+    take(change);
+    change.revert();
+  }, [take]);
+
+  const push = useCallback((change: UndoableChange) => {
+    // Send an earlier change to the same item first, so undoing either one
+    // can't restore a stale value
+    const keys = keysOf(change);
+    stack.current.filter(item => keysOf(item).some(key => keys.includes(key))).forEach(commit);
+
+    const id = nextId.current++;
+    const revert = change.apply();
+    const toastId = toast((t) => (
+      <span className="flex items-center">
+        {change.message}
+        <button
+          onClick={() => undo(id)}
+          className="ml-3 text-sm font-medium text-primary-600 hover:text-primary-800"
+        >
+          Undo
+        </button>
+      </span>
+    ), { duration: UNDO_DELAY_MS });
+    const pending: PendingChange = { ...change, id, revert, toastId, timer: setTimeout(() => commit(pending), UNDO_DELAY_MS) };
+
+    stack.current.push(pending);
+    updatePendingCount();
+  }, [commit, undo, updatePendingCount]);
+
+  useEffect(() => {
+    // Ctrl/Cmd+Z undoes the latest change, except while typing
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement;
+      if (target.closest('input, textarea, select, [contenteditable="true"]')) return;
+      if ((e.ctrlKey || e.metaKey) && !e.shiftKey && e.key.toLowerCase() === 'z' && stack.current.length > 0) {
+        e.preventDefault();
+        undo();
+      }
+    };
+    const flush = () => stack.current.forEach(commit);
+
+    window.addEventListener('keydown', handleKeyDown);
+    window.addEventListener('pagehide', flush);
+    return () => {
+      window.removeEventListener('keydown', handleKeyDown);
+      window.removeEventListener('pagehide', flush);
+      flush();
+    };
+  }, [commit, undo]);
+
+  return { push, undo, pendingCount };
+};
+
+export default useUndoStack;
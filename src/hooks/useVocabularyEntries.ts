@@ -0,0 +1,45 @@
+import { useQuery } from 'react-query';
+import axios from 'axios';
+import { VocabularyEntry, VocabularyResponse } from '../types/vocabulary';
+
+// Page size for loading a whole collection
+export const ALL_ENTRIES_LIMIT = 1000;
+
+// The key lives under 'vocabulary' so existing invalidations refresh it as well
+export const ALL_ENTRIES_KEY = ['vocabulary', 'all'];
+
+// Every entry matching the given filters, one page of ALL_ENTRIES_LIMIT at a time
+export const fetchEntries = async (filters: { search?: string; tag?: string; status?: string } = {}) => {
+  const entries: VocabularyEntry[] = [];
+  for (let page = 1; ; page++) {
+    const response = await axios.get<VocabularyResponse>('/vocabulary', {
+      params: {
+        ...filters,
+        page,
+        limit: ALL_ENTRIES_LIMIT,
+        sortBy: 'created_at',
+        sortOrder: 'desc'
+      }
+    });
+    const { vocabulary, totalPages } = response.data;
+    entries.push(...vocabulary);
+    if (page >= totalPages || vocabulary.length === 0) return entries;
+  }
+};
+
+export const fetchAllEntries = () => fetchEntries();
+
+// Fetch every vocabulary entry of the user
+export const useVocabularyEntries = (options: { enabled?: boolean } = {}) => {
+  return useQuery<VocabularyEntry[]>(
+    ALL_ENTRIES_KEY,
+    fetchAllEntries,
+    {
+      enabled: options.enabled ?? true,
+      refetchOnWindowFocus: true,
+      staleTime: 30000, // 30 seconds
+    }
+  );
+};
+
+export default useVocabularyEntries;
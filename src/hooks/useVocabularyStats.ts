@@ -0,0 +1,24 @@
+import { useQuery } from 'react-query';
+import axios from 'axios';
+import { VocabularyStats } from '../types/vocabulary';
+
+// Word counts by status and tag. vocabularyCache patches this query after
+// local edits, so keep the key in sync with it.
+export const useVocabularyStats = () => {
+  return useQuery<VocabularyStats>(
+    'vocabularyStats',
+    async () => {
+      const response = await axios.get('/vocabulary/stats/overview');
+      return response.data;
+    },
+    {
+      refetchOnWindowFocus: true,
+      refetchOnMount: true,
+      staleTime: 30000, // 30 seconds
+      refetchInterval: 60000, // Refetch every minute
+      refetchIntervalInBackground: false, // Only refetch when tab is active
+    }
+  );
+};
+
+export default useVocabularyStats;
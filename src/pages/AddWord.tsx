@@ -1,10 +1,10 @@
-import React, { useState, useCallback, useEffect } from 'react';
+import React, { useState, useCallback, useEffect, useRef } from 'react';
 import { useNavigate, useSearchParams } from 'react-router-dom';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { z } from 'zod';
 import { useDropzone } from 'react-dropzone';
-import { useMutation, useQueryClient } from 'react-query';
+import { useQuery, useMutation, useQueryClient } from 'react-query';
 import { 
   Upload, 
   FileText, 
@@ -19,10 +19,19 @@ import {
   CheckSquare,
   Square,
   Filter,
-  Star
+  Star,
+  AlertCircle,
+  Pause,
+  Play,
+  Square as StopIcon,
+  RotateCcw
 } from 'lucide-react';
 import axios from 'axios';
 import toast from 'react-hot-toast';
+import { useSpeechRecognition } from '../hooks/useSpeechRecognition';
+import { useActivityTracker } from '../hooks/useActivityTracker';
+import TagPicker from '../components/TagPicker';
+import { VocabularyEntry } from '../types/vocabulary';
 
 interface ExtractedWord {
   word: string;
@@ -52,13 +61,32 @@ const addWordSchema = z.object({
 
 type AddWordFormData = z.infer<typeof addWordSchema>;
 
+type InputMethod = 'manual' | 'text' | 'pdf' | 'image' | 'voice';
+
+const INPUT_METHODS: InputMethod[] = ['manual', 'text', 'pdf', 'image', 'voice'];
+
+const VOICE_LANGUAGES = [
+  { value: 'en-US', label: 'English (US)' },
+  { value: 'en-GB', label: 'English (UK)' },
+  { value: 'en-IN', label: 'English (India)' },
+  { value: 'hi-IN', label: 'Hindi' },
+  { value: 'es-ES', label: 'Spanish' },
+  { value: 'fr-FR', label: 'French' },
+  { value: 'de-DE', label: 'German' },
+];
+
 const AddWord: React.FC = () => {
   const navigate = useNavigate();
+  useActivityTracker('add-word');
   const [searchParams] = useSearchParams();
   const queryClient = useQueryClient();
   const editId = searchParams.get('edit');
 
-  const [inputMethod, setInputMethod] = useState<'manual' | 'text' | 'pdf' | 'image' | 'voice'>('manual');
+  const [inputMethod, setInputMethod] = useState<InputMethod>(() => {
+    // Dashboard quick actions link straight to a method, e.g. ?method=voice
+    const method = searchParams.get('method') as InputMethod | null;
+    return method && INPUT_METHODS.includes(method) ? method : 'manual';
+  });
   const [isProcessing, setIsProcessing] = useState(false);
   const [isFetchingWord, setIsFetchingWord] = useState(false);
   const [autoFillSuccess, setAutoFillSuccess] = useState(false);
@@ -68,11 +96,43 @@ const AddWord: React.FC = () => {
   const [difficultyFilter, setDifficultyFilter] = useState<string>('all');
   const [isBulkAdding, setIsBulkAdding] = useState(false);
   const [hindiMeaning, setHindiMeaning] = useState('');
+  const [voiceLanguage, setVoiceLanguage] = useState('en-US');
+  // Word of the entry being edited, so auto-fill leaves the saved details alone
+  const loadedWordRef = useRef<string | null>(null);
+
+  const {
+    isSupported: isVoiceSupported,
+    state: voiceState,
+    transcript,
+    interimTranscript,
+    error: voiceError,
+    start: startListening,
+    pause: pauseListening,
+    resume: resumeListening,
+    stop: stopListening,
+    reset: resetTranscript,
+    setTranscript,
+  } = useSpeechRecognition({ lang: voiceLanguage });
+
+  useEffect(() => {
+    if (voiceError) {
+      toast.error(voiceError);
+    }
+  }, [voiceError]);
+
+  // Stop dictating when switching to another input method
+  useEffect(() => {
+    if (inputMethod !== 'voice') {
+      stopListening();
+    }
+  }, [inputMethod, stopListening]);
 
   const {
     register,
     handleSubmit,
     setValue,
+    getValues,
+    reset,
     watch,
     formState: { errors },
   } = useForm<AddWordFormData>({
@@ -85,6 +145,43 @@ const AddWord: React.FC = () => {
     }
   });
 
+  // Fetch the entry being edited
+  const {
+    data: editEntry,
+    isLoading: isLoadingEntry,
+    error: editError,
+  } = useQuery<VocabularyEntry>(
+    ['vocabularyEntry', editId],
+    async () => {
+      const response = await axios.get(`/vocabulary/${editId}`);
+      return response.data.entry;
+    },
+    {
+      enabled: !!editId,
+      retry: false,
+      refetchOnWindowFocus: false,
+    }
+  );
+
+  // Prefill the form once the entry has loaded
+  useEffect(() => {
+    if (!editEntry) return;
+
+    loadedWordRef.current = editEntry.word;
+    setInputMethod('manual');
+    reset({
+      word: editEntry.word,
+      meaning: editEntry.meaning,
+      example: editEntry.example || '',
+      synonyms: editEntry.synonyms || [],
+      antonyms: editEntry.antonyms || [],
+      tags: editEntry.tags?.length ? editEntry.tags : ['learning'],
+      notes: editEntry.notes || '',
+      pronunciation: editEntry.pronunciation || '',
+      partOfSpeech: editEntry.part_of_speech || '',
+    });
+  }, [editEntry, reset]);
+
   const watchedWord = watch('word');
   const watchedMeaning = watch('meaning');
 
@@ -92,19 +189,31 @@ const AddWord: React.FC = () => {
   useEffect(() => {
     const fetchWordDetails = async () => {
       if (watchedWord && watchedWord.trim().length > 2) {
+        // Don't look up the word we just loaded for editing
+        if (editId && watchedWord.trim() === loadedWordRef.current) return;
+
         setIsFetchingWord(true);
         setAutoFillSuccess(false);
         try {
           const response = await axios.get(`/vocabulary/word/${encodeURIComponent(watchedWord.trim())}`);
           const wordData = response.data.word;
           
-          // Auto-fill the form with fetched data
-          setValue('meaning', wordData.meaning);
-          setValue('example', wordData.example || '');
-          setValue('synonyms', wordData.synonyms || []);
-          setValue('antonyms', wordData.antonyms || []);
-          setValue('pronunciation', wordData.pronunciation || '');
-          setValue('partOfSpeech', wordData.partOfSpeech || '');
+          // Auto-fill the form with fetched data. When editing, only fill
+          // fields that are still empty so saved details are kept.
+          const fillField = (field: keyof AddWordFormData, value: any) => {
+            const current = getValues(field);
+            const isEmpty = Array.isArray(current) ? current.length === 0 : !current;
+            if (!editId || isEmpty) {
+              setValue(field, value);
+            }
+          };
+
+          fillField('meaning', wordData.meaning);
+          fillField('example', wordData.example || '');
+          fillField('synonyms', wordData.synonyms || []);
+          fillField('antonyms', wordData.antonyms || []);
+          fillField('pronunciation', wordData.pronunciation || '');
+          fillField('partOfSpeech', wordData.partOfSpeech || '');
           
           toast.success(`Found details for "${wordData.word}"`);
           setAutoFillSuccess(true);
@@ -120,7 +229,7 @@ const AddWord: React.FC = () => {
     // Debounce the API call
     const timeoutId = setTimeout(fetchWordDetails, 1000);
     return () => clearTimeout(timeoutId);
-  }, [watchedWord, setValue]);
+  }, [watchedWord, editId, getValues, setValue]);
 
   // Auto-fetch Hindi meaning when meaning changes
   useEffect(() => {
@@ -169,6 +278,32 @@ const AddWord: React.FC = () => {
     }
   );
 
+  // Update existing vocabulary entry
+  const updateMutation = useMutation(
+    async (data: AddWordFormData) => {
+      const response = await axios.put(`/vocabulary/${editId}`, data);
+      return response.data;
+    },
+    {
+      onSuccess: () => {
+        queryClient.invalidateQueries('vocabulary');
+        queryClient.invalidateQueries('vocabularyStats');
+        queryClient.invalidateQueries('recentWords');
+        queryClient.invalidateQueries(['vocabularyEntry', editId]);
+        toast.success('Word updated successfully!');
+        navigate('/vocabulary');
+      },
+      onError: (error: any) => {
+        if (error.response?.status === 404) {
+          toast.error('This word no longer exists');
+          navigate('/vocabulary');
+          return;
+        }
+        toast.error(error.response?.data?.error || 'Failed to update word');
+      }
+    }
+  );
+
   // Bulk create vocabulary entries
   const bulkCreateMutation = useMutation(
     async (words: ExtractedWord[]) => {
@@ -388,9 +523,15 @@ const AddWord: React.FC = () => {
   };
 
   const onSubmit = (data: AddWordFormData) => {
-    createMutation.mutate(data);
+    if (editId) {
+      updateMutation.mutate(data);
+    } else {
+      createMutation.mutate(data);
+    }
   };
 
+  const isSaving = createMutation.isLoading || updateMutation.isLoading;
+
   const inputMethods = [
     { id: 'manual', name: 'Manual Entry', icon: Plus, description: 'Add word manually' },
     { id: 'text', name: 'Text Input', icon: FileText, description: 'Paste or type text' },
@@ -399,6 +540,50 @@ const AddWord: React.FC = () => {
     { id: 'voice', name: 'Voice Input', icon: Mic, description: 'Record voice input' },
   ];
 
+  if (editId && isLoadingEntry) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="spinner w-8 h-8"></div>
+      </div>
+    );
+  }
+
+  if (editId && (editError || !editEntry)) {
+    const editResponse = axios.isAxiosError<{ error?: string }>(editError) ? editError.response : undefined;
+    const isNotFound = editResponse?.status === 404 || !editError;
+
+    return (
+      <div className="card">
+        <div className="card-body text-center py-12">
+          <AlertCircle className="h-12 w-12 text-red-500 mx-auto mb-4" />
+          <h3 className="text-lg font-medium text-gray-900 mb-2">
+            {isNotFound ? 'Word not found' : 'Error loading word'}
+          </h3>
+          <p className="text-gray-600 mb-6">
+            {isNotFound
+              ? 'This word may have been deleted. You can add it again as a new word.'
+              : editResponse?.data?.error || 'Failed to load the word for editing.'}
+          </p>
+          <div className="flex justify-center space-x-3">
+            <button
+              onClick={() => navigate('/vocabulary')}
+              className="btn-secondary"
+            >
+              Back to Vocabulary
+            </button>
+            <button
+              onClick={() => navigate('/add-word')}
+              className="btn-primary"
+            >
+              <Plus className="mr-2 h-4 w-4" />
+              Add New Word
+            </button>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
   return (
     <div className="space-y-6">
       {/* Header */}
@@ -407,35 +592,39 @@ const AddWord: React.FC = () => {
           {editId ? 'Edit Word' : 'Add New Word'}
         </h1>
         <p className="mt-1 text-sm text-gray-500">
-          Choose an input method and add words to your vocabulary
+          {editId
+            ? `Update the details of "${editEntry?.word}"`
+            : 'Choose an input method and add words to your vocabulary'}
         </p>
       </div>
 
       {/* Input Method Selection */}
-      <div className="card">
-        <div className="card-header">
-          <h3 className="text-lg font-medium text-gray-900">Choose Input Method</h3>
-        </div>
-        <div className="card-body">
-          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-5 gap-4">
-            {inputMethods.map((method) => (
-              <button
-                key={method.id}
-                onClick={() => setInputMethod(method.id as any)}
-                className={`p-4 border-2 rounded-lg text-center transition-all ${
-                  inputMethod === method.id
-                    ? 'border-primary-500 bg-primary-50 text-primary-700'
-                    : 'border-gray-200 hover:border-gray-300 hover:bg-gray-50'
-                }`}
-              >
-                <method.icon className="mx-auto h-8 w-8 mb-2" />
-                <h4 className="font-medium text-sm">{method.name}</h4>
-                <p className="text-xs text-gray-500 mt-1">{method.description}</p>
-              </button>
-            ))}
+      {!editId && (
+        <div className="card">
+          <div className="card-header">
+            <h3 className="text-lg font-medium text-gray-900">Choose Input Method</h3>
+          </div>
+          <div className="card-body">
+            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-5 gap-4">
+              {inputMethods.map((method) => (
+                <button
+                  key={method.id}
+                  onClick={() => setInputMethod(method.id as InputMethod)}
+                  className={`p-4 border-2 rounded-lg text-center transition-all ${
+                    inputMethod === method.id
+                      ? 'border-primary-500 bg-primary-50 text-primary-700'
+                      : 'border-gray-200 hover:border-gray-300 hover:bg-gray-50'
+                  }`}
+                >
+                  <method.icon className="mx-auto h-8 w-8 mb-2" />
+                  <h4 className="font-medium text-sm">{method.name}</h4>
+                  <p className="text-xs text-gray-500 mt-1">{method.description}</p>
+                </button>
+              ))}
+            </div>
           </div>
         </div>
-      </div>
+      )}
 
       {/* Input Method Content */}
       {inputMethod === 'text' && (
@@ -532,12 +721,110 @@ const AddWord: React.FC = () => {
             <h3 className="text-lg font-medium text-gray-900">Voice Input</h3>
           </div>
           <div className="card-body">
-            <div className="text-center py-8">
-              <Mic className="mx-auto h-12 w-12 text-gray-400 mb-4" />
-              <p className="text-gray-500">
-                Voice input feature coming soon! For now, please use text input or manual entry.
-              </p>
-            </div>
+            {isVoiceSupported ? (
+              <div className="space-y-4">
+                <div className="flex flex-col md:flex-row md:items-center md:justify-between space-y-3 md:space-y-0">
+                  <div className="flex items-center space-x-3">
+                    <label className="text-sm font-medium text-gray-700">Language</label>
+                    <select
+                      value={voiceLanguage}
+                      onChange={(e) => setVoiceLanguage(e.target.value)}
+                      className="text-sm border border-gray-300 rounded px-2 py-1"
+                    >
+                      {VOICE_LANGUAGES.map(language => (
+                        <option key={language.value} value={language.value}>{language.label}</option>
+                      ))}
+                    </select>
+                  </div>
+                  <div className="flex items-center space-x-2">
+                    {voiceState === 'idle' && (
+                      <button onClick={startListening} className="btn-primary">
+                        <Mic className="mr-2 h-4 w-4" />
+                        {transcript ? 'Continue Recording' : 'Start Recording'}
+                      </button>
+                    )}
+                    {voiceState === 'listening' && (
+                      <button onClick={pauseListening} className="btn-secondary">
+                        <Pause className="mr-2 h-4 w-4" />
+                        Pause
+                      </button>
+                    )}
+                    {voiceState === 'paused' && (
+                      <button onClick={resumeListening} className="btn-secondary">
+                        <Play className="mr-2 h-4 w-4" />
+                        Resume
+                      </button>
+                    )}
+                    {voiceState !== 'idle' && (
+                      <button onClick={stopListening} className="btn-danger">
+                        <StopIcon className="mr-2 h-4 w-4" />
+                        Stop
+                      </button>
+                    )}
+                  </div>
+                </div>
+
+                <div className="flex items-center space-x-2 text-sm text-gray-600">
+                  <span className={`inline-block h-3 w-3 rounded-full ${voiceState === 'listening' ? 'recording' : 'bg-gray-300'}`} />
+                  <span>
+                    {voiceState === 'listening' ? 'Listening...' : voiceState === 'paused' ? 'Paused' : 'Not recording'}
+                  </span>
+                </div>
+
+                <div>
+                  <textarea
+                    value={transcript}
+                    onChange={(e) => setTranscript(e.target.value)}
+                    placeholder="Your speech will appear here. You can edit it before extracting words."
+                    className="input h-32 resize-none"
+                    readOnly={voiceState === 'listening'}
+                  />
+                  {interimTranscript && (
+                    <p className="mt-2 text-sm text-gray-400 italic">{interimTranscript}</p>
+                  )}
+                </div>
+
+                <div className="flex justify-end space-x-2">
+                  <button
+                    onClick={resetTranscript}
+                    disabled={!transcript || voiceState === 'listening'}
+                    className="btn-secondary disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    <RotateCcw className="mr-2 h-4 w-4" />
+                    Clear
+                  </button>
+                  <button
+                    onClick={() => {
+                      stopListening();
+                      processText(transcript);
+                    }}
+                    disabled={!transcript.trim() || isProcessing}
+                    className="btn-primary disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    {isProcessing ? (
+                      <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                    ) : (
+                      <FileText className="mr-2 h-4 w-4" />
+                    )}
+                    Extract Words
+                  </button>
+                </div>
+              </div>
+            ) : (
+              <div className="text-center py-8">
+                <Mic className="mx-auto h-12 w-12 text-gray-400 mb-4" />
+                <p className="text-gray-500">
+                  Your browser doesn't support voice input. Try Chrome or Edge, or paste your text instead.
+                </p>
+                <button
+                  onClick={() => setInputMethod('text')}
+                  className="btn-secondary mt-4"
+                >
+                  <FileText className="mr-2 h-4 w-4" />
+                  Use Text Input
+                </button>
+              </div>
+            )}
           </div>
         </div>
       )}
@@ -906,19 +1193,10 @@ const AddWord: React.FC = () => {
               <label className="block text-sm font-medium text-gray-700 mb-2">
                 Tags *
               </label>
-              <div className="flex flex-wrap gap-2">
-                {['learning', 'reviewing', 'mastered', 'favorite', 'difficult', 'important'].map((tag) => (
-                  <label key={tag} className="flex items-center">
-                    <input
-                      type="checkbox"
-                      value={tag}
-                      {...register('tags')}
-                      className="mr-2"
-                    />
-                    <span className="text-sm capitalize">{tag}</span>
-                  </label>
-                ))}
-              </div>
+              <TagPicker
+                value={watch('tags')}
+                onChange={(tags) => setValue('tags', tags, { shouldValidate: true })}
+              />
               {errors.tags && (
                 <p className="mt-1 text-sm text-red-600">{errors.tags.message}</p>
               )}
@@ -947,10 +1225,10 @@ const AddWord: React.FC = () => {
               </button>
               <button
                 type="submit"
-                disabled={createMutation.isLoading}
+                disabled={isSaving}
                 className="btn-primary"
               >
-                {createMutation.isLoading ? (
+                {isSaving ? (
                   <Loader2 className="mr-2 h-4 w-4 animate-spin" />
                 ) : (
                   <Save className="mr-2 h-4 w-4" />
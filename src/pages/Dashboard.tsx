@@ -7,8 +7,6 @@ import {
   TrendingUp, 
   Target, 
   Star, 
-  Clock,
-  BarChart3,
   ArrowRight,
   FileText,
   Upload,
@@ -17,12 +15,12 @@ import {
 } from 'lucide-react';
 import axios from 'axios';
 import { useAuth } from '../contexts/AuthContext';
-
-interface VocabularyStats {
-  totalWords: number;
-  tagStats: Array<{ _id: string; count: number }>;
-  statusStats: Array<{ _id: string; count: number }>;
-}
+import PronounceButton from '../components/PronounceButton';
+import StreakCard from '../components/dashboard/StreakCard';
+import ProgressChart from '../components/dashboard/ProgressChart';
+import TimeSpentCard from '../components/dashboard/TimeSpentCard';
+import { useTags } from '../hooks/useTags';
+import { useVocabularyStats } from '../hooks/useVocabularyStats';
 
 interface VocabularyEntry {
   _id: string;
@@ -36,21 +34,10 @@ interface VocabularyEntry {
 const Dashboard: React.FC = () => {
   const { user } = useAuth();
 
+  const { getTagColor } = useTags();
+
   // Fetch vocabulary statistics
-  const { data: stats, isLoading: statsLoading } = useQuery<VocabularyStats>(
-    'vocabularyStats',
-    async () => {
-      const response = await axios.get('/vocabulary/stats/overview');
-      return response.data;
-    },
-    {
-      refetchOnWindowFocus: true,
-      refetchOnMount: true,
-      staleTime: 30000, // 30 seconds
-      refetchInterval: 60000, // Refetch every minute
-      refetchIntervalInBackground: false, // Only refetch when tab is active
-    }
-  );
+  const { data: stats, isLoading: statsLoading } = useVocabularyStats();
 
   // Fetch recent vocabulary entries
   const { data: recentWords, isLoading: wordsLoading } = useQuery<{
@@ -71,18 +58,6 @@ const Dashboard: React.FC = () => {
     }
   );
 
-  const getTagColor = (tag: string) => {
-    const colors: { [key: string]: string } = {
-      learning: 'bg-blue-100 text-blue-800',
-      reviewing: 'bg-yellow-100 text-yellow-800',
-      mastered: 'bg-green-100 text-green-800',
-      favorite: 'bg-pink-100 text-pink-800',
-      difficult: 'bg-red-100 text-red-800',
-      important: 'bg-purple-100 text-purple-800',
-    };
-    return colors[tag] || 'bg-gray-100 text-gray-800';
-  };
-
   const getStatusColor = (status: string) => {
     const colors: { [key: string]: string } = {
       learning: 'bg-blue-100 text-blue-800',
@@ -150,6 +125,9 @@ const Dashboard: React.FC = () => {
         </p>
       </div>
 
+      {/* Daily Goal and Streak */}
+      <StreakCard />
+
       {/* Statistics Cards */}
       <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
         <div className="card">
@@ -216,37 +194,12 @@ const Dashboard: React.FC = () => {
           </div>
         </div>
 
-        {/* New Card: Time Spent Learning */}
-        <div className="card">
-          <div className="card-body">
-            <div className="flex items-center">
-              <div className="flex-shrink-0">
-                <Clock className="h-8 w-8 text-blue-400" />
-              </div>
-              <div className="ml-4">
-                <p className="text-sm font-medium text-gray-500">Time Spent Learning</p>
-                <p className="text-2xl font-bold text-gray-900">--:--</p>
-              </div>
-            </div>
-          </div>
-        </div>
-
-        {/* New Card: Progress Chart */}
-        <div className="card">
-          <div className="card-body">
-            <div className="flex items-center">
-              <div className="flex-shrink-0">
-                <BarChart3 className="h-8 w-8 text-indigo-400" />
-              </div>
-              <div className="ml-4">
-                <p className="text-sm font-medium text-gray-500">Progress Chart</p>
-                <p className="text-2xl font-bold text-gray-900">Coming Soon</p>
-              </div>
-            </div>
-          </div>
-        </div>
+        <TimeSpentCard />
       </div>
 
+      {/* Progress Chart */}
+      <ProgressChart />
+
       {/* Quick Actions */}
       <div className="card">
         <div className="card-header">
@@ -300,7 +253,10 @@ const Dashboard: React.FC = () => {
                   className="flex items-center justify-between p-4 border border-gray-200 rounded-lg hover:bg-gray-50 transition-colors"
                 >
                   <div className="flex-1">
-                    <h4 className="text-sm font-medium text-gray-900">{word.word}</h4>
+                    <div className="flex items-center">
+                      <h4 className="text-sm font-medium text-gray-900">{word.word}</h4>
+                      <PronounceButton text={word.word} className="ml-1" />
+                    </div>
                     <p className="text-sm text-gray-500 mt-1">{word.meaning}</p>
                     <div className="flex items-center mt-2 space-x-2">
                       <span className={`inline-flex items-center px-2 py-1 rounded-full text-xs font-medium ${getStatusColor(word.status)}`}>
@@ -1,8 +1,39 @@
-import React from 'react';
+import React, { useState } from 'react';
+import { Volume2, Save, Loader2 } from 'lucide-react';
 import { useAuth } from '../contexts/AuthContext';
+import { ACCENT_OPTIONS, DEFAULT_SPEECH_PREFERENCES, usePronunciation } from '../hooks/usePronunciation';
+import ActivityHeatmap from '../components/profile/ActivityHeatmap';
+import TagManager from '../components/profile/TagManager';
 
 const Profile: React.FC = () => {
-  const { user } = useAuth();
+  const { user, updateUser } = useAuth();
+  const savedSpeech = { ...DEFAULT_SPEECH_PREFERENCES, ...user?.preferences?.speech };
+  const [accent, setAccent] = useState(savedSpeech.accent);
+  const [voiceURI, setVoiceURI] = useState(savedSpeech.voiceURI || '');
+  const [rate, setRate] = useState(savedSpeech.rate);
+  const [isSavingSpeech, setIsSavingSpeech] = useState(false);
+
+  // Preview the unsaved settings
+  const { isSupported, voices, speak } = usePronunciation({ accent, voiceURI, rate });
+  const accentVoices = voices.filter(voice =>
+    voice.lang.replace('_', '-').toLowerCase().startsWith(accent.split('-')[0].toLowerCase())
+  );
+
+  const saveSpeechPreferences = async () => {
+    setIsSavingSpeech(true);
+    try {
+      await updateUser({
+        preferences: {
+          ...user?.preferences,
+          speech: { accent, rate, voiceURI: voiceURI || undefined }
+        }
+      });
+    } catch (error) {
+      // updateUser already reports the failure
+    } finally {
+      setIsSavingSpeech(false);
+    }
+  };
 
   return (
     <div className="space-y-6">
@@ -45,6 +76,97 @@ const Profile: React.FC = () => {
         </div>
       </div>
 
+      <div className="card">
+        <div className="card-header">
+          <h3 className="text-lg font-medium text-gray-900">Pronunciation</h3>
+        </div>
+        <div className="card-body">
+          {isSupported ? (
+            <div className="space-y-6">
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Accent
+                  </label>
+                  <select
+                    value={accent}
+                    onChange={(e) => {
+                      setAccent(e.target.value);
+                      setVoiceURI('');
+                    }}
+                    className="input"
+                  >
+                    {ACCENT_OPTIONS.map(option => (
+                      <option key={option.value} value={option.value}>{option.label}</option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Voice
+                  </label>
+                  <select
+                    value={voiceURI}
+                    onChange={(e) => setVoiceURI(e.target.value)}
+                    className="input"
+                  >
+                    <option value="">Default for accent</option>
+                    {accentVoices.map(voice => (
+                      <option key={voice.voiceURI} value={voice.voiceURI}>
+                        {voice.name} ({voice.lang})
+                      </option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Speed ({rate.toFixed(1)}x)
+                  </label>
+                  <input
+                    type="range"
+                    min={0.5}
+                    max={1.5}
+                    step={0.1}
+                    value={rate}
+                    onChange={(e) => setRate(Number(e.target.value))}
+                    className="w-full mt-2"
+                  />
+                </div>
+              </div>
+              <div className="flex justify-end space-x-3">
+                <button
+                  type="button"
+                  onClick={() => speak('vocabulary')}
+                  className="btn-secondary"
+                >
+                  <Volume2 className="mr-2 h-4 w-4" />
+                  Test Voice
+                </button>
+                <button
+                  type="button"
+                  onClick={saveSpeechPreferences}
+                  disabled={isSavingSpeech}
+                  className="btn-primary"
+                >
+                  {isSavingSpeech ? (
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  ) : (
+                    <Save className="mr-2 h-4 w-4" />
+                  )}
+                  Save
+                </button>
+              </div>
+            </div>
+          ) : (
+            <p className="text-sm text-gray-500">
+              Your browser doesn't support speech synthesis, so words can't be read aloud.
+            </p>
+          )}
+        </div>
+      </div>
+
+      <TagManager />
+
       <div className="card">
         <div className="card-header">
           <h3 className="text-lg font-medium text-gray-900">Statistics</h3>
@@ -78,6 +200,8 @@ const Profile: React.FC = () => {
           </div>
         </div>
       </div>
+
+      <ActivityHeatmap />
     </div>
   );
 };
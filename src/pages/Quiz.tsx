@@ -1,62 +1,226 @@
-import React, { useState, useEffect, useCallback } from 'react';
-import { useQuery, useMutation, useQueryClient } from 'react-query';
+import React, { useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import { useLocation, useNavigate } from 'react-router-dom';
+import { useQuery } from 'react-query';
 import { 
   Play, 
-  CheckCircle, 
-  XCircle, 
   ArrowRight, 
   ArrowLeft,
-  RotateCcw,
-  BarChart3,
   Clock,
-  BookOpen,
   Target,
   Trophy,
-  AlertCircle
+  AlertCircle,
+  X,
+  Layers,
+  Volume2,
+  History,
+  Keyboard,
+  CheckCircle,
+  XCircle,
+  Shuffle,
+  TrendingUp,
+  Printer,
+  Loader2
 } from 'lucide-react';
 import axios from 'axios';
 import toast from 'react-hot-toast';
+import { QuestionType, QuizQuestion, QuizResponse, QuizResult, TimingMode } from '../types/quiz';
+import { useSubmitQuizResults } from '../hooks/useSubmitQuizResults';
+import { useVocabularyEntries } from '../hooks/useVocabularyEntries';
+import { useTags } from '../hooks/useTags';
+import { VocabularyEntry, WordSource } from '../types/vocabulary';
+import { createSeed, createSeededRandom, shuffle } from '../utils/random';
+import {
+  buildLocalQuestions,
+  generateQuiz,
+  generateWorksheetQuiz,
+  isAudioQuestion,
+  isLocalQuestionType,
+  isPrintableQuestionType,
+  isTypedQuestion
+} from '../utils/quizGenerator';
+import { createWorksheet } from '../utils/worksheet';
+import { gradeTypedAnswer } from '../utils/fuzzyMatch';
+import { usePronunciation } from '../hooks/usePronunciation';
+import { useActivityTracker } from '../hooks/useActivityTracker';
+import { useAuth } from '../contexts/AuthContext';
+import { SavedQuizSession, clearQuizSession, loadQuizSession, saveQuizSession } from '../utils/quizSession';
+import { addQuizHistoryEntry, getQuizHistory } from '../utils/quizHistory';
+import {
+  AdaptivePick,
+  MAX_LEVEL,
+  STARTING_LEVEL,
+  adjustLevel,
+  arrangeAdaptiveQuestions,
+  getWordStats,
+  pickAdaptiveWords
+} from '../utils/adaptive';
+import FlashcardSession, { FlashcardDirection } from '../components/quiz/FlashcardSession';
+import QuizResultsBreakdown from '../components/quiz/QuizResultsBreakdown';
+import AnswerDiff from '../components/quiz/AnswerDiff';
+import MatchingPairs from '../components/quiz/MatchingPairs';
+import { getQuizTypeIcon, getQuizTypeLabel, getWordFilterLabel } from '../components/quiz/quizTypes';
+import { getReviewState, gradeResponse, scheduleReview } from '../utils/scheduler';
 
-interface QuizQuestion {
-  wordId: string;
-  word: string;
-  question: string;
-  options: string[];
-  correctAnswer: string;
-  type: 'meaning' | 'synonyms' | 'antonyms' | 'fill-blank';
+interface QuizLocationState {
+  wordIds?: string[];
 }
 
-interface QuizResponse {
-  questions: QuizQuestion[];
-  totalQuestions: number;
-  quizType: string;
-}
+const OPTION_LETTERS = ['a', 'b', 'c', 'd'];
 
-interface QuizResult {
-  wordId: string;
-  selectedAnswer: string;
-  correct: boolean;
-  correctAnswer: string;
-  word: string;
-  question: string;
-}
+const TIMING_MODES: Array<{ value: TimingMode; label: string }> = [
+  { value: 'quiz', label: 'Whole-quiz time budget' },
+  { value: 'question', label: 'Countdown per question' },
+  { value: 'untimed', label: 'Untimed practice' },
+  { value: 'sudden-death', label: 'Sudden death' },
+];
+
+const WORD_SOURCES: Array<{ value: WordSource; label: string }> = [
+  { value: 'manual', label: 'Manual entry' },
+  { value: 'text', label: 'Text' },
+  { value: 'pdf', label: 'PDF' },
+  { value: 'image', label: 'Image' },
+  { value: 'voice', label: 'Voice' },
+];
+
+const isCountdown = (mode: TimingMode) => mode === 'quiz' || mode === 'question';
+
+// Typed answers allow small typos, options must match exactly
+const gradeAnswer = (question: QuizQuestion, selectedAnswer: string) => {
+  const verdict = isTypedQuestion(question.type)
+    ? gradeTypedAnswer(selectedAnswer, question.correctAnswer).verdict
+    : undefined;
+  const correct = verdict ? verdict !== 'incorrect' : selectedAnswer === question.correctAnswer;
+  return { verdict, correct };
+};
+
+// A matching round counts as answered once every word has a meaning
+const isQuestionAnswered = (question: QuizQuestion, answers: { [key: string]: string }) =>
+  question.pairs
+    ? question.pairs.every(pair => !!answers[pair.wordId])
+    : !!answers[question.wordId]?.trim();
+
+// Matching rounds get the time of one question per pair
+const countTimedItems = (questions: QuizQuestion[]) =>
+  questions.reduce((count, question) => count + (question.pairs?.length || 1), 0);
+
+const isQuestionCorrect = (question: QuizQuestion, answers: { [key: string]: string }) =>
+  (question.pairs || [question]).every(item => gradeAnswer(item, answers[item.wordId] || '').correct);
+
+// Spelled out for screen readers, e.g. "2 minutes 30 seconds"
+const describeTime = (seconds: number) => {
+  const mins = Math.floor(seconds / 60);
+  const secs = seconds % 60;
+  const parts = [];
+  if (mins > 0) parts.push(`${mins} minute${mins === 1 ? '' : 's'}`);
+  if (secs > 0 || mins === 0) parts.push(`${secs} second${secs === 1 ? '' : 's'}`);
+  return parts.join(' ');
+};
 
 const Quiz: React.FC = () => {
-  const [quizType, setQuizType] = useState<'meaning' | 'synonyms' | 'antonyms' | 'fill-blank' | 'mixed'>('meaning');
+  const location = useLocation();
+  const navigate = useNavigate();
+  const { user } = useAuth();
+  useActivityTracker('quiz');
+  // Words picked elsewhere in the app, e.g. the review queue
+  const [wordIds, setWordIds] = useState<string[] | null>(
+    (location.state as QuizLocationState | null)?.wordIds || null
+  );
+  const [studyMode, setStudyMode] = useState<'multiple-choice' | 'flashcards'>('multiple-choice');
+  const [flashcardDirection, setFlashcardDirection] = useState<FlashcardDirection>('forward');
+  const [flashcardEntries, setFlashcardEntries] = useState<VocabularyEntry[] | null>(null);
+  const [quizType, setQuizType] = useState<QuestionType | 'mixed'>('meaning');
   const [questionCount, setQuestionCount] = useState(10);
   const [status, setStatus] = useState<'all' | 'learning' | 'reviewing' | 'mastered'>('all');
+  const [tagFilter, setTagFilter] = useState('');
+  const [sourceFilter, setSourceFilter] = useState('');
+  // Inclusive range of days the words were added, as YYYY-MM-DD
+  const [createdFrom, setCreatedFrom] = useState('');
+  const [createdTo, setCreatedTo] = useState('');
   const [currentQuestionIndex, setCurrentQuestionIndex] = useState(0);
   const [selectedAnswers, setSelectedAnswers] = useState<{ [key: string]: string }>({});
+  const [responseTimes, setResponseTimes] = useState<{ [key: string]: number }>({});
+  const [timeSpent, setTimeSpent] = useState<{ [key: string]: number }>({});
+  const [timingMode, setTimingMode] = useState<TimingMode>('quiz');
+  const [secondsPerQuestion, setSecondsPerQuestion] = useState(30);
+  const [practiceMode, setPracticeMode] = useState(false);
+  // Feedback on the current question in practice mode, once it is checked
+  const [practiceFeedback, setPracticeFeedback] = useState<ReturnType<typeof gradeAnswer> | null>(null);
+  // First wrong answer for each missed word; retries don't overwrite it
+  const [missedAnswers, setMissedAnswers] = useState<{ [key: string]: string }>({});
   const [showResults, setShowResults] = useState(false);
   const [quizStarted, setQuizStarted] = useState(false);
   const [timeLeft, setTimeLeft] = useState(0);
+  const [timeLimit, setTimeLimit] = useState(0);
+  const [elapsedSeconds, setElapsedSeconds] = useState(0);
   const [timerActive, setTimerActive] = useState(false);
+  const [timerAnnouncement, setTimerAnnouncement] = useState('');
+  const [showFinishConfirm, setShowFinishConfirm] = useState(false);
   const [quizResults, setQuizResults] = useState<QuizResult[]>([]);
+  const [quizData, setQuizData] = useState<QuizResponse | null>(null);
+  const [savedSession, setSavedSession] = useState<SavedQuizSession | null>(() => loadQuizSession(user?.id));
+  const [startedAt, setStartedAt] = useState(0);
+  const [wordFilter, setWordFilter] = useState('all');
+  const [adaptive, setAdaptive] = useState(false);
+  const [includeSeedCode, setIncludeSeedCode] = useState(true);
+  const [isPrinting, setIsPrinting] = useState(false);
+  const [adaptiveSeed, setAdaptiveSeed] = useState(createSeed);
+  const [wordStats, setWordStats] = useState(() => getWordStats(getQuizHistory(user?.id)));
+  // Set for adaptive sessions: how hard each word is for the user
+  const [adaptiveChallenges, setAdaptiveChallenges] = useState<{ [key: string]: number } | null>(null);
+  const [adaptiveLevel, setAdaptiveLevel] = useState(STARTING_LEVEL);
+  // Adaptive candidates not yet placed in the quiz
+  const [adaptivePool, setAdaptivePool] = useState<QuizQuestion[]>([]);
+  const effectiveQuestionCount = wordIds ? wordIds.length : questionCount;
+  // Matching rounds and flashcards aren't asked one word at a time
+  const canAdapt = studyMode === 'multiple-choice' && quizType !== 'match';
+  const isAdaptive = adaptive && canAdapt;
+
+  const { speak } = usePronunciation();
+  // Audio questions read the latest voice settings without replaying when they load
+  const speakRef = useRef(speak);
+  speakRef.current = speak;
+  const questionShownAtRef = useRef<number>(Date.now());
+  const optionRefs = useRef<Array<HTMLButtonElement | null>>([]);
+
+  // Flashcards, free-text and listening questions are built from the vocabulary itself.
+  // The entries are loaded for every quiz so questions can still be generated
+  // when the quiz service is unreachable, for practice feedback and for
+  // adaptive word selection.
+  // The quiz endpoint only filters by status, so quizzes over chosen words,
+  // tags, sources or dates are built from the filtered word pool instead
+  const usesWordFilters = !!wordIds || isAdaptive || !!tagFilter || !!sourceFilter || !!createdFrom || !!createdTo;
+  const usesLocalWords = studyMode === 'flashcards' || isLocalQuestionType(quizType) || usesWordFilters;
+  const { data: vocabularyEntries, isLoading: entriesLoading } = useVocabularyEntries();
+  const { tags, getTagCount } = useTags();
+
+  const wordPool = useMemo(() =>
+    (vocabularyEntries || []).filter(entry => {
+      if (wordIds) return wordIds.includes(entry.id);
+      const createdOn = entry.created_at.slice(0, 10);
+      return (status === 'all' || entry.status === status)
+        && (!tagFilter || entry.tags.includes(tagFilter))
+        && (!sourceFilter || entry.source === sourceFilter)
+        && (!createdFrom || createdOn >= createdFrom)
+        && (!createdTo || createdOn <= createdTo);
+    }), [vocabularyEntries, wordIds, status, tagFilter, sourceFilter, createdFrom, createdTo]);
+
+  // Offer the tags that are actually in use
+  const availableTags = tags.map(tag => tag.name).filter(name => getTagCount(name) > 0);
 
-  const queryClient = useQueryClient();
+  // Adaptive quizzes draw half as many words again as they ask, so there are
+  // harder and easier words to switch to as the session goes on
+  const adaptivePicks = useMemo<AdaptivePick[]>(() =>
+    isAdaptive
+      ? pickAdaptiveWords(
+        wordPool,
+        Math.ceil(effectiveQuestionCount * 1.5),
+        wordStats,
+        createSeededRandom(adaptiveSeed)
+      )
+      : [], [isAdaptive, wordPool, effectiveQuestionCount, wordStats, adaptiveSeed]);
 
   // Fetch quiz questions
-  const { data: quizData, isLoading, error, refetch } = useQuery<QuizResponse>(
+  const { isLoading, error, refetch, remove } = useQuery<QuizResponse>(
     ['quiz', quizType, questionCount, status],
     async () => {
       const response = await axios.get('/vocabulary/quiz', {
@@ -75,72 +239,292 @@ const Quiz: React.FC = () => {
   );
 
   // Submit quiz results
-  const submitResultsMutation = useMutation(
-    async (results: QuizResult[]) => {
-      const response = await axios.post('/vocabulary/quiz/results', {
-        results,
-        quizType
-      });
-      return response.data;
-    },
-    {
-      onSuccess: (data) => {
-        toast.success(data.message);
-        queryClient.invalidateQueries('vocabulary');
-        queryClient.invalidateQueries('vocabularyStats');
-      },
-      onError: () => {
-        toast.error('Failed to submit quiz results');
-      }
-    }
-  );
+  const submitResultsMutation = useSubmitQuizResults();
+
+  // Add the time since the current question was shown to its running total
+  const commitQuestionTime = useCallback(() => {
+    const question = quizData?.questions[currentQuestionIndex];
+    const now = Date.now();
+    const totals = question
+      ? { ...timeSpent, [question.wordId]: (timeSpent[question.wordId] || 0) + now - questionShownAtRef.current }
+      : timeSpent;
+    questionShownAtRef.current = now;
+    setTimeSpent(totals);
+    return totals;
+  }, [quizData, currentQuestionIndex, timeSpent]);
 
   const handleFinishQuiz = useCallback(() => {
     setTimerActive(false);
+    setShowFinishConfirm(false);
     if (!quizData) return;
 
-    const results: QuizResult[] = quizData.questions.map(question => ({
-      wordId: question.wordId,
-      selectedAnswer: selectedAnswers[question.wordId] || '',
-      correct: selectedAnswers[question.wordId] === question.correctAnswer,
-      correctAnswer: question.correctAnswer,
-      word: question.word,
-      question: question.question
-    }));
+    const totals = commitQuestionTime();
+    // Sudden death only counts the questions that were reached, practice
+    // mode counts each re-queued word once
+    const askedQuestions = (timingMode === 'sudden-death'
+      ? quizData.questions.slice(0, currentQuestionIndex + 1)
+      : quizData.questions
+    ).filter((question, index, questions) =>
+      questions.findIndex(other => other.wordId === question.wordId) === index
+    );
+
+    // Each pair in a matching round is scored as its own result
+    const results: QuizResult[] = askedQuestions.flatMap(question => {
+      const scored = question.pairs || [question];
+      const timeSpentMs = Math.round((totals[question.wordId] || 0) / scored.length);
+
+      return scored.map(item => {
+        const selectedAnswer = missedAnswers[item.wordId] ?? (selectedAnswers[item.wordId] || '');
+        const responseTimeMs = responseTimes[item.wordId];
+        const { verdict, correct } = gradeAnswer(item, selectedAnswer);
+        // Near misses are accepted but reviewed sooner
+        const quality = verdict === 'almost' ? 3 : gradeResponse(correct, responseTimeMs);
+        // Server questions may leave out the scheduling fields, so the loaded
+        // entry is the source of truth when there is one
+        const entry = vocabularyEntries?.find(candidate => candidate.id === item.wordId);
+
+        return {
+          wordId: item.wordId,
+          selectedAnswer,
+          correct,
+          correctAnswer: item.correctAnswer,
+          word: item.word,
+          question: item.question,
+          responseTimeMs,
+          timeSpentMs,
+          verdict,
+          schedule: scheduleReview(getReviewState(entry || item), quality)
+        };
+      });
+    });
 
     setQuizResults(results);
-    submitResultsMutation.mutate(results);
+    submitResultsMutation.mutate({ results, quizType });
+    addQuizHistoryEntry(user?.id, { quizType, wordFilter, startedAt, results });
     setShowResults(true);
-  }, [quizData, selectedAnswers, submitResultsMutation]);
+    clearQuizSession(user?.id);
+  }, [quizData, commitQuestionTime, timingMode, currentQuestionIndex, missedAnswers, selectedAnswers, responseTimes,
+    submitResultsMutation, quizType, wordFilter, startedAt, user?.id, vocabularyEntries]);
 
-  // Timer effect
+  // Keep the in-progress session in local storage
   useEffect(() => {
-    let interval: NodeJS.Timeout;
-    if (timerActive && timeLeft > 0) {
-      interval = setInterval(() => {
-        setTimeLeft((prev) => {
-          if (prev <= 1) {
-            setTimerActive(false);
-            handleFinishQuiz();
-            return 0;
-          }
-          return prev - 1;
-        });
-      }, 1000);
-    }
+    if (!quizStarted || showResults || !quizData) return;
+    saveQuizSession(user?.id, {
+      quizType,
+      wordFilter,
+      quizData,
+      selectedAnswers,
+      responseTimes,
+      timeSpent,
+      currentQuestionIndex,
+      timingMode,
+      secondsPerQuestion,
+      practiceMode,
+      missedAnswers,
+      timeLeft,
+      startedAt,
+      adaptiveChallenges,
+      adaptiveLevel,
+      adaptivePool
+    });
+  }, [quizStarted, showResults, quizData, quizType, wordFilter, selectedAnswers, responseTimes, timeSpent,
+    currentQuestionIndex, timingMode, secondsPerQuestion, practiceMode, missedAnswers, timeLeft, startedAt,
+    adaptiveChallenges, adaptiveLevel, adaptivePool, user?.id]);
+
+  // Start timing each question when it is shown
+  useEffect(() => {
+    questionShownAtRef.current = Date.now();
+  }, [currentQuestionIndex, quizStarted]);
+
+  // Tick the clock: count down in timed modes, track elapsed time in all of them
+  useEffect(() => {
+    if (!timerActive) return;
+    const interval = setInterval(() => {
+      setElapsedSeconds(Math.floor((Date.now() - startedAt) / 1000));
+      if (isCountdown(timingMode)) {
+        setTimeLeft(prev => Math.max(0, prev - 1));
+      }
+    }, 1000);
     return () => clearInterval(interval);
-  }, [timerActive, timeLeft, handleFinishQuiz]);
+  }, [timerActive, startedAt, timingMode]);
+
+  // Let screen readers know at the halfway point and with 30 seconds left
+  useEffect(() => {
+    if (!timerActive || timingMode !== 'quiz') return;
+    const halfway = Math.floor(timeLimit / 2);
+    if (timeLeft === halfway && halfway > 30) {
+      setTimerAnnouncement(`Halfway there: ${describeTime(timeLeft)} remaining`);
+    } else if (timeLeft === 30) {
+      setTimerAnnouncement('30 seconds remaining');
+    }
+  }, [timerActive, timingMode, timeLeft, timeLimit]);
+
+  const resumeQuiz = () => {
+    if (!savedSession) return;
+
+    setQuizType(savedSession.quizType as QuestionType | 'mixed');
+    setWordFilter(savedSession.wordFilter);
+    setStartedAt(savedSession.startedAt + (Date.now() - savedSession.savedAt));
+    setQuizData(savedSession.quizData);
+    setSelectedAnswers(savedSession.selectedAnswers);
+    setResponseTimes(savedSession.responseTimes);
+    setTimeSpent(savedSession.timeSpent);
+    setCurrentQuestionIndex(savedSession.currentQuestionIndex);
+    setShowResults(false);
+    setQuizStarted(true);
+    setTimingMode(savedSession.timingMode);
+    setSecondsPerQuestion(savedSession.secondsPerQuestion);
+    setPracticeMode(savedSession.practiceMode);
+    setMissedAnswers(savedSession.missedAnswers);
+    setAdaptiveChallenges(savedSession.adaptiveChallenges);
+    setAdaptiveLevel(savedSession.adaptiveLevel);
+    setAdaptivePool(savedSession.adaptivePool);
+    setPracticeFeedback(null);
+    setTimeLeft(savedSession.timeLeft);
+    setTimeLimit(countTimedItems(savedSession.quizData.questions) * savedSession.secondsPerQuestion);
+    setElapsedSeconds(Math.floor((savedSession.savedAt - savedSession.startedAt) / 1000));
+    setTimerAnnouncement('');
+    setTimerActive(true);
+    setSavedSession(null);
+  };
+
+  const discardSavedSession = () => {
+    clearQuizSession(user?.id);
+    setSavedSession(null);
+  };
+
+  // Adaptive quizzes keep the extra candidates in reserve and open with the
+  // word closest to the starting level
+  const beginQuiz = (response: QuizResponse, picks?: AdaptivePick[]) => {
+    let data = response;
+    if (picks) {
+      const challenges = picks.reduce<{ [key: string]: number }>((map, pick) => {
+        map[pick.entry.id] = pick.challenge;
+        return map;
+      }, {});
+      const count = Math.min(effectiveQuestionCount, response.questions.length);
+      const arranged = arrangeAdaptiveQuestions(
+        response.questions.slice(0, count),
+        response.questions.slice(count),
+        0,
+        STARTING_LEVEL,
+        challenges
+      );
+      data = { ...response, questions: arranged.questions, totalQuestions: arranged.questions.length };
+      setAdaptiveChallenges(challenges);
+      setAdaptivePool(arranged.pool);
+    } else {
+      setAdaptiveChallenges(null);
+      setAdaptivePool([]);
+    }
+    setAdaptiveLevel(STARTING_LEVEL);
+
+    clearQuizSession(user?.id);
+    setSavedSession(null);
+    setQuizData(data);
+    setWordFilter(wordIds ? 'selected' : status);
+    setStartedAt(Date.now());
+    setQuizStarted(true);
+    setCurrentQuestionIndex(0);
+    setSelectedAnswers({});
+    setResponseTimes({});
+    setTimeSpent({});
+    setMissedAnswers({});
+    setPracticeFeedback(null);
+    setShowResults(false);
+    const quizSeconds = countTimedItems(data.questions) * secondsPerQuestion;
+    setTimeLeft(timingMode === 'question' ? countTimedItems(data.questions.slice(0, 1)) * secondsPerQuestion : quizSeconds);
+    setTimeLimit(quizSeconds);
+    setElapsedSeconds(0);
+    setTimerAnnouncement('');
+    setTimerActive(true);
+  };
+
+  // Read audio questions aloud as soon as they are shown
+  useEffect(() => {
+    const question = quizData?.questions[currentQuestionIndex];
+    if (quizStarted && !showResults && question && isAudioQuestion(question.type)) {
+      speakRef.current(question.word);
+    }
+  }, [quizData, currentQuestionIndex, quizStarted, showResults]);
+
+  // Generate the server's question types locally, for offline use or when
+  // the quiz endpoint fails
+  const buildFallbackQuiz = (entries: VocabularyEntry[], count: number): QuizResponse | null => {
+    if (isLocalQuestionType(quizType)) return null;
+    const quiz = generateQuiz(entries, quizType, count, createSeed(), vocabularyEntries);
+    return quiz.questions.length > 0 ? quiz : null;
+  };
 
   const startQuiz = async () => {
+    const picks = isAdaptive ? adaptivePicks : undefined;
+    if (picks && picks.length === 0) {
+      toast.error('No words available for the selected criteria');
+      return;
+    }
+    // Adaptive quizzes are built from the picked words, in pick order
+    const fallbackEntries = picks ? picks.map(pick => pick.entry) : wordPool;
+    const fallbackCount = picks ? picks.length : effectiveQuestionCount;
+
+    if (isLocalQuestionType(quizType)) {
+      if (wordPool.length === 0) {
+        toast.error('No words available for the selected criteria');
+        return;
+      }
+      if (quizType === 'listening' && (vocabularyEntries?.length || 0) < 2) {
+        toast.error('Add at least two words to take a listening quiz');
+        return;
+      }
+      if (quizType === 'match' && wordPool.length < 2) {
+        toast.error('Matching needs at least two words');
+        return;
+      }
+
+      const questions = buildLocalQuestions(
+        picks ? fallbackEntries : shuffle(wordPool).slice(0, effectiveQuestionCount),
+        quizType,
+        // Matching rounds are topped up with other words matching the filters
+        quizType === 'match' ? wordPool : vocabularyEntries
+      );
+      beginQuiz({ questions, totalQuestions: questions.length, quizType }, picks);
+      return;
+    }
+
+    if (usesWordFilters) {
+      const quiz = buildFallbackQuiz(fallbackEntries, fallbackCount);
+      if (quiz) {
+        beginQuiz(quiz, picks);
+      } else {
+        toast.error('No questions available for the selected criteria');
+      }
+      return;
+    }
+
+    if (!navigator.onLine) {
+      const fallback = buildFallbackQuiz(fallbackEntries, fallbackCount);
+      if (fallback) {
+        toast("You're offline, so this quiz was built from your saved words");
+        beginQuiz(fallback, picks);
+      } else {
+        toast.error('No saved words are available for an offline quiz');
+      }
+      return;
+    }
+
     try {
       const result = await refetch();
+      if (result.error) {
+        const fallback = buildFallbackQuiz(fallbackEntries, fallbackCount);
+        if (fallback) {
+          // Clear the failed request so its error screen doesn't show
+          remove();
+          toast('The quiz service is unavailable, so this quiz was built from your saved words');
+          beginQuiz(fallback, picks);
+        }
+        return;
+      }
       if (result.data && result.data.questions && result.data.questions.length > 0) {
-        setQuizStarted(true);
-        setCurrentQuestionIndex(0);
-        setSelectedAnswers({});
-        setShowResults(false);
-        setTimeLeft(result.data.questions.length * 30); // 30 seconds per question
-        setTimerActive(true);
+        beginQuiz(result.data, picks);
       } else {
         toast.error('No questions available for the selected criteria');
       }
@@ -152,61 +536,266 @@ const Quiz: React.FC = () => {
     }
   };
 
-  const handleAnswerSelect = (questionId: string, answer: string) => {
+  const startFlashcards = () => {
+    if (wordPool.length === 0) {
+      toast.error('No words available for the selected criteria');
+      return;
+    }
+
+    setFlashcardEntries(shuffle(wordPool).slice(0, effectiveQuestionCount));
+  };
+
+  // Save the configured quiz as a PDF worksheet with an answer key
+  const printWorksheet = async () => {
+    if (!isPrintableQuestionType(quizType)) return;
+    if (wordPool.length === 0) {
+      toast.error('No words available for the selected criteria');
+      return;
+    }
+
+    const quiz = generateWorksheetQuiz(
+      wordPool,
+      quizType,
+      effectiveQuestionCount,
+      createSeed(),
+      quizType === 'match' ? wordPool : vocabularyEntries
+    );
+    if (quiz.questions.length === 0) {
+      toast.error('None of these words can be used for this question type');
+      return;
+    }
+
+    setIsPrinting(true);
+    try {
+      const doc = await createWorksheet(quiz, {
+        title: `${getQuizTypeLabel(quizType)} Worksheet`,
+        subtitle: `${quiz.questions.length} questions · ${getWordCriteriaLabel()}`,
+        includeSeedCode
+      });
+      const fileName = `worksheet_${quizType}_${quiz.seed}.pdf`;
+      doc.save(fileName);
+      toast.success(`Worksheet saved (${fileName})`);
+    } catch (error) {
+      console.error('Worksheet error:', error);
+      toast.error('Failed to create the worksheet. Please try again.');
+    } finally {
+      setIsPrinting(false);
+    }
+  };
+
+  const handleAnswerSelect = useCallback((questionId: string, answer: string) => {
     setSelectedAnswers(prev => ({
       ...prev,
       [questionId]: answer
     }));
-  };
+    setResponseTimes(prev => ({
+      ...prev,
+      [questionId]: Date.now() - questionShownAtRef.current
+    }));
+  }, []);
+
+  // Practice mode grades as soon as an answer is given and queues missed
+  // words again at the end of the session
+  const checkPracticeAnswer = useCallback((answer?: string) => {
+    const question = quizData?.questions[currentQuestionIndex];
+    if (!quizData || !question || practiceFeedback) return;
+
+    const answers = answer !== undefined ? { ...selectedAnswers, [question.wordId]: answer } : selectedAnswers;
+    if (!isQuestionAnswered(question, answers)) return;
+    if (answer !== undefined) {
+      handleAnswerSelect(question.wordId, answer);
+    }
+
+    const grade = question.pairs
+      ? { verdict: undefined, correct: isQuestionCorrect(question, answers) }
+      : gradeAnswer(question, answers[question.wordId]);
+    setPracticeFeedback(grade);
+    if (grade.correct) return;
+
+    const missed = (question.pairs || [question])
+      .filter(item => !gradeAnswer(item, answers[item.wordId] || '').correct);
+    setMissedAnswers(prev => {
+      const next = { ...prev };
+      missed.forEach(item => {
+        if (!(item.wordId in next)) next[item.wordId] = answers[item.wordId] || '';
+      });
+      return next;
+    });
+
+    const isQueuedAgain = quizData.questions
+      .slice(currentQuestionIndex + 1)
+      .some(other => other.wordId === question.wordId);
+    if (!isQueuedAgain) {
+      // Matching rounds come back with just the missed pairs
+      const retry = question.pairs
+        ? { ...question, pairs: missed, options: shuffle(missed.map(item => item.correctAnswer)) }
+        : question;
+      setQuizData({ ...quizData, questions: [...quizData.questions, retry] });
+    }
+  }, [quizData, currentQuestionIndex, practiceFeedback, selectedAnswers, handleAnswerSelect]);
+
+  const handleOptionSelect = useCallback((questionId: string, option: string) => {
+    if (practiceMode) {
+      checkPracticeAnswer(option);
+    } else {
+      handleAnswerSelect(questionId, option);
+    }
+  }, [practiceMode, checkPracticeAnswer, handleAnswerSelect]);
+
+  const handleNextQuestion = useCallback(() => {
+    if (!quizData) return;
+
+    const question = quizData.questions[currentQuestionIndex];
+    if (practiceMode) {
+      // The first press checks a typed answer, the next one acknowledges it
+      if (!practiceFeedback) {
+        checkPracticeAnswer();
+        return;
+      }
+      if (!practiceFeedback.correct && question) {
+        // Clear wrong answers so the words start blank when they come back
+        const missedIds = (question.pairs || [question])
+          .filter(item => !gradeAnswer(item, selectedAnswers[item.wordId] || '').correct)
+          .map(item => item.wordId);
+        setSelectedAnswers(prev => {
+          const next = { ...prev };
+          missedIds.forEach(wordId => { next[wordId] = ''; });
+          return next;
+        });
+      }
+      setPracticeFeedback(null);
+    }
 
-  const handleNextQuestion = () => {
-    if (currentQuestionIndex < (quizData?.questions.length || 0) - 1) {
+    const correct = practiceFeedback ? practiceFeedback.correct : !!question && isQuestionCorrect(question, selectedAnswers);
+    if (timingMode === 'sudden-death' && question && !correct) {
+      toast.error('Wrong answer — sudden death is over');
+      handleFinishQuiz();
+      return;
+    }
+
+    if (currentQuestionIndex < quizData.questions.length - 1) {
+      let questions = quizData.questions;
+      // Adaptive sessions step the level up or down and pick the next word to match
+      if (adaptiveChallenges) {
+        const level = adjustLevel(adaptiveLevel, correct);
+        const arranged = arrangeAdaptiveQuestions(questions, adaptivePool, currentQuestionIndex + 1, level, adaptiveChallenges);
+        questions = arranged.questions;
+        setAdaptiveLevel(level);
+        setAdaptivePool(arranged.pool);
+        setQuizData({ ...quizData, questions });
+      }
+
+      commitQuestionTime();
       setCurrentQuestionIndex(prev => prev + 1);
+      if (timingMode === 'question') {
+        setTimeLeft(countTimedItems(questions.slice(currentQuestionIndex + 1, currentQuestionIndex + 2)) * secondsPerQuestion);
+      }
     } else {
       handleFinishQuiz();
     }
-  };
+  }, [quizData, currentQuestionIndex, practiceMode, practiceFeedback, checkPracticeAnswer, timingMode, selectedAnswers,
+    adaptiveChallenges, adaptiveLevel, adaptivePool, secondsPerQuestion, commitQuestionTime, handleFinishQuiz]);
+
+  // Per-question, sudden death, practice and adaptive quizzes only move forward
+  const canGoBack = !practiceMode && !adaptiveChallenges && (timingMode === 'quiz' || timingMode === 'untimed');
 
-  const handlePreviousQuestion = () => {
-    if (currentQuestionIndex > 0) {
+  const handlePreviousQuestion = useCallback(() => {
+    if (canGoBack && currentQuestionIndex > 0) {
+      commitQuestionTime();
       setCurrentQuestionIndex(prev => prev - 1);
     }
-  };
+  }, [canGoBack, currentQuestionIndex, commitQuestionTime]);
+
+  // When a countdown runs out, move on from the question or end the quiz
+  useEffect(() => {
+    if (!timerActive || !isCountdown(timingMode) || timeLeft > 0) return;
+
+    if (timingMode === 'question') {
+      handleNextQuestion();
+    } else {
+      toast.error("Time's up!");
+      handleFinishQuiz();
+    }
+  }, [timerActive, timingMode, timeLeft, handleNextQuestion, handleFinishQuiz]);
+
+  // 1-4 or A-D pick an option, Enter and the arrow keys move between
+  // questions and Esc asks before finishing
+  useEffect(() => {
+    if (!quizStarted || showResults || !quizData) return;
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') {
+        e.preventDefault();
+        setShowFinishConfirm(prev => !prev);
+        return;
+      }
+
+      const target = e.target as HTMLElement;
+      if (showFinishConfirm || e.ctrlKey || e.metaKey || e.altKey
+        || target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.tagName === 'SELECT') {
+        return;
+      }
+
+      const question = quizData.questions[currentQuestionIndex];
+      if (!question) return;
+      const answered = isQuestionAnswered(question, selectedAnswers);
+      const isLast = currentQuestionIndex === quizData.questions.length - 1;
+      const key = e.key.toLowerCase();
+      const optionIndex = /^[1-4]$/.test(key) ? Number(key) - 1 : OPTION_LETTERS.indexOf(key);
+
+      if (!question.pairs && optionIndex !== -1 && optionIndex < question.options.length) {
+        e.preventDefault();
+        handleOptionSelect(question.wordId, question.options[optionIndex]);
+        optionRefs.current[optionIndex]?.focus();
+      } else if (e.key === 'Enter') {
+        // Other focused buttons keep their own Enter behaviour
+        if (target.tagName === 'BUTTON' && target.getAttribute('role') !== 'radio') return;
+        e.preventDefault();
+        if (!answered) return;
+        if (isLast && !practiceMode) {
+          setShowFinishConfirm(true);
+        } else {
+          handleNextQuestion();
+        }
+      } else if (e.key === 'ArrowRight' && answered && !isLast) {
+        e.preventDefault();
+        handleNextQuestion();
+      } else if (e.key === 'ArrowLeft') {
+        e.preventDefault();
+        handlePreviousQuestion();
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [quizStarted, showResults, showFinishConfirm, quizData, currentQuestionIndex, selectedAnswers, practiceMode,
+    handleOptionSelect, handleNextQuestion, handlePreviousQuestion]);
 
   const resetQuiz = () => {
+    clearQuizSession(user?.id);
     setQuizStarted(false);
     setCurrentQuestionIndex(0);
     setSelectedAnswers({});
+    setResponseTimes({});
+    setMissedAnswers({});
+    setPracticeFeedback(null);
     setShowResults(false);
+    setShowFinishConfirm(false);
     setTimeLeft(0);
     setTimerActive(false);
     setQuizResults([]);
+    setQuizData(null);
+    setAdaptiveChallenges(null);
+    setAdaptivePool([]);
+    // Fresh picks that take the finished quiz into account
+    setWordStats(getWordStats(getQuizHistory(user?.id)));
+    setAdaptiveSeed(createSeed());
   };
 
-  const markWordsForReview = async () => {
-    const incorrectWords = quizResults
-      .filter(result => !result.correct)
-      .map(result => result.wordId);
-
-    if (incorrectWords.length === 0) {
-      toast.success('No words to mark for review!');
-      return;
-    }
-
-    try {
-      // Mark incorrect words for review by updating their status
-      await Promise.all(
-        incorrectWords.map(wordId =>
-          axios.put(`/vocabulary/${wordId}`, { status: 'reviewing' })
-        )
-      );
-
-      toast.success(`${incorrectWords.length} words marked for review!`);
-      queryClient.invalidateQueries('vocabulary');
-      queryClient.invalidateQueries('vocabularyStats');
-    } catch (error) {
-      toast.error('Failed to mark words for review');
-    }
+  const clearWordSelection = () => {
+    setWordIds(null);
+    // Drop the router state so a refresh doesn't bring the selection back
+    navigate(location.pathname, { replace: true, state: null });
   };
 
   const formatTime = (seconds: number) => {
@@ -215,25 +804,25 @@ const Quiz: React.FC = () => {
     return `${mins}:${secs.toString().padStart(2, '0')}`;
   };
 
-  const getQuizTypeIcon = (type: string) => {
-    switch (type) {
-      case 'meaning': return <BookOpen className="h-5 w-5" />;
-      case 'synonyms': return <Target className="h-5 w-5" />;
-      case 'antonyms': return <RotateCcw className="h-5 w-5" />;
-      case 'fill-blank': return <AlertCircle className="h-5 w-5" />;
-      case 'mixed': return <BarChart3 className="h-5 w-5" />;
-      default: return <BookOpen className="h-5 w-5" />;
-    }
+  const getWordCriteriaLabel = () => {
+    if (wordIds) return getWordFilterLabel('selected');
+    const parts = [getWordFilterLabel(status)];
+    if (tagFilter) parts.push(`tagged ${tagFilter}`);
+    if (sourceFilter) parts.push(`from ${WORD_SOURCES.find(source => source.value === sourceFilter)?.label}`);
+    if (createdFrom && createdTo) parts.push(`added ${createdFrom} to ${createdTo}`);
+    else if (createdFrom) parts.push(`added since ${createdFrom}`);
+    else if (createdTo) parts.push(`added until ${createdTo}`);
+    return parts.join(' · ');
   };
 
-  const getQuizTypeLabel = (type: string) => {
-    switch (type) {
-      case 'meaning': return 'Word Meanings';
-      case 'synonyms': return 'Synonyms';
-      case 'antonyms': return 'Antonyms';
-      case 'fill-blank': return 'Fill in the Blank';
-      case 'mixed': return 'Mixed Questions';
-      default: return 'Word Meanings';
+  const getTimeLimitLabel = () => {
+    if (studyMode === 'flashcards') return 'Self-paced';
+    if (practiceMode) return 'Untimed, with instant feedback';
+    switch (timingMode) {
+      case 'quiz': return `${formatTime(effectiveQuestionCount * secondsPerQuestion)} for the whole quiz`;
+      case 'question': return `${secondsPerQuestion} seconds per question`;
+      case 'untimed': return 'Untimed';
+      case 'sudden-death': return 'Untimed, ends on your first mistake';
     }
   };
 
@@ -262,13 +851,13 @@ const Quiz: React.FC = () => {
             </p>
             <div className="space-y-3">
               <button
-                onClick={() => window.location.href = '/add-word'}
+                onClick={() => navigate('/add-word')}
                 className="btn btn-primary"
               >
                 Add Words
               </button>
               <button
-                onClick={() => window.location.href = '/vocabulary'}
+                onClick={() => navigate('/vocabulary')}
                 className="btn btn-outline"
               >
                 View Vocabulary
@@ -280,42 +869,143 @@ const Quiz: React.FC = () => {
     );
   }
 
+  if (flashcardEntries) {
+    return (
+      <FlashcardSession
+        entries={flashcardEntries}
+        direction={flashcardDirection}
+        wordFilter={wordIds ? 'selected' : status}
+        onExit={() => setFlashcardEntries(null)}
+      />
+    );
+  }
+
   if (!quizStarted) {
     return (
       <div className="max-w-4xl mx-auto">
         <div className="card">
           <div className="card-header">
-            <h2 className="text-2xl font-bold text-gray-900">Vocabulary Quiz</h2>
-            <p className="text-gray-600">Test your knowledge with interactive quizzes</p>
+            <div className="flex items-center justify-between">
+              <div>
+                <h2 className="text-2xl font-bold text-gray-900">Vocabulary Quiz</h2>
+                <p className="text-gray-600">Test your knowledge with interactive quizzes</p>
+              </div>
+              <button onClick={() => navigate('/quiz/history')} className="btn-secondary">
+                <History className="mr-2 h-4 w-4" />
+                History
+              </button>
+            </div>
           </div>
           <div className="card-body">
+            {savedSession && (
+              <div className="mb-6 flex flex-col md:flex-row md:items-center md:justify-between bg-yellow-50 border border-yellow-200 rounded-lg p-4">
+                <div className="flex items-center space-x-3">
+                  <History className="h-5 w-5 text-yellow-600" />
+                  <div>
+                    <p className="text-sm font-medium text-yellow-800">You have an unfinished quiz</p>
+                    <p className="text-xs text-yellow-700">
+                      {getQuizTypeLabel(savedSession.quizType)} · {Object.keys(savedSession.selectedAnswers).length} of{' '}
+                      {savedSession.quizData.questions.length} answered ·{' '}
+                      {isCountdown(savedSession.timingMode) ? `${formatTime(savedSession.timeLeft)} left` : 'untimed'} ·
+                      saved {new Date(savedSession.savedAt).toLocaleString()}
+                    </p>
+                  </div>
+                </div>
+                <div className="mt-3 md:mt-0 flex space-x-2">
+                  <button onClick={discardSavedSession} className="btn-secondary text-sm">
+                    Discard
+                  </button>
+                  <button onClick={resumeQuiz} className="btn-primary text-sm">
+                    <Play className="mr-2 h-4 w-4" />
+                    Resume quiz
+                  </button>
+                </div>
+              </div>
+            )}
+            {wordIds && (
+              <div className="mb-6 flex items-center justify-between bg-primary-50 border border-primary-200 rounded-lg p-4">
+                <p className="text-sm text-primary-700">
+                  This quiz covers the {wordIds.length} word{wordIds.length === 1 ? '' : 's'} you selected.
+                </p>
+                <button
+                  onClick={clearWordSelection}
+                  className="text-sm text-primary-600 hover:text-primary-800 flex items-center"
+                >
+                  <X className="h-4 w-4 mr-1" />
+                  Clear selection
+                </button>
+              </div>
+            )}
             <div className="grid md:grid-cols-2 gap-6">
               {/* Quiz Settings */}
               <div className="space-y-6">
                 <div>
                   <label className="block text-sm font-medium text-gray-700 mb-2">
-                    Quiz Type
+                    Study Mode
                   </label>
                   <div className="grid grid-cols-2 gap-3">
-                    {(['meaning', 'synonyms', 'antonyms', 'fill-blank', 'mixed'] as const).map((type) => (
+                    {(['multiple-choice', 'flashcards'] as const).map((mode) => (
                       <button
-                        key={type}
-                        onClick={() => setQuizType(type)}
+                        key={mode}
+                        onClick={() => setStudyMode(mode)}
                         className={`p-3 rounded-lg border-2 transition-colors ${
-                          quizType === type
+                          studyMode === mode
                             ? 'border-primary-500 bg-primary-50 text-primary-700'
                             : 'border-gray-200 hover:border-gray-300'
                         }`}
                       >
                         <div className="flex items-center space-x-2">
-                          {getQuizTypeIcon(type)}
-                          <span className="text-sm font-medium">{getQuizTypeLabel(type)}</span>
+                          {mode === 'flashcards' ? <Layers className="h-5 w-5" /> : <Target className="h-5 w-5" />}
+                          <span className="text-sm font-medium">
+                            {mode === 'flashcards' ? 'Flashcards' : 'Multiple Choice'}
+                          </span>
                         </div>
                       </button>
                     ))}
                   </div>
                 </div>
 
+                {studyMode === 'flashcards' ? (
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">
+                      Card Direction
+                    </label>
+                    <select
+                      value={flashcardDirection}
+                      onChange={(e) => setFlashcardDirection(e.target.value as FlashcardDirection)}
+                      className="input w-full"
+                    >
+                      <option value="forward">Word → Meaning</option>
+                      <option value="reverse">Meaning → Word</option>
+                      <option value="mixed">Mixed</option>
+                    </select>
+                  </div>
+                ) : (
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">
+                      Quiz Type
+                    </label>
+                    <div className="grid grid-cols-2 gap-3">
+                      {(['meaning', 'synonyms', 'antonyms', 'fill-blank', 'typing', 'spelling', 'listening', 'match', 'mixed'] as const).map((type) => (
+                        <button
+                          key={type}
+                          onClick={() => setQuizType(type)}
+                          className={`p-3 rounded-lg border-2 transition-colors ${
+                            quizType === type
+                              ? 'border-primary-500 bg-primary-50 text-primary-700'
+                              : 'border-gray-200 hover:border-gray-300'
+                          }`}
+                        >
+                          <div className="flex items-center space-x-2">
+                            {getQuizTypeIcon(type)}
+                            <span className="text-sm font-medium">{getQuizTypeLabel(type)}</span>
+                          </div>
+                        </button>
+                      ))}
+                    </div>
+                  </div>
+                )}
+
                 <div>
                   <label className="block text-sm font-medium text-gray-700 mb-2">
                     Number of Questions
@@ -323,7 +1013,8 @@ const Quiz: React.FC = () => {
                   <select
                     value={questionCount}
                     onChange={(e) => setQuestionCount(Number(e.target.value))}
-                    className="input w-full"
+                    disabled={!!wordIds}
+                    className="input w-full disabled:bg-gray-100"
                   >
                     <option value={5}>5 questions</option>
                     <option value={10}>10 questions</option>
@@ -339,7 +1030,8 @@ const Quiz: React.FC = () => {
                   <select
                     value={status}
                     onChange={(e) => setStatus(e.target.value as any)}
-                    className="input w-full"
+                    disabled={!!wordIds}
+                    className="input w-full disabled:bg-gray-100"
                   >
                     <option value="all">All words</option>
                     <option value="learning">Learning</option>
@@ -347,6 +1039,149 @@ const Quiz: React.FC = () => {
                     <option value="mastered">Mastered</option>
                   </select>
                 </div>
+
+                <div className="grid grid-cols-2 gap-3">
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">
+                      Tag
+                    </label>
+                    <select
+                      value={tagFilter}
+                      onChange={(e) => setTagFilter(e.target.value)}
+                      disabled={!!wordIds}
+                      className="input w-full disabled:bg-gray-100"
+                    >
+                      <option value="">Any tag</option>
+                      {availableTags.map(tag => (
+                        <option key={tag} value={tag}>{tag}</option>
+                      ))}
+                    </select>
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">
+                      Source
+                    </label>
+                    <select
+                      value={sourceFilter}
+                      onChange={(e) => setSourceFilter(e.target.value)}
+                      disabled={!!wordIds}
+                      className="input w-full disabled:bg-gray-100"
+                    >
+                      <option value="">Any source</option>
+                      {WORD_SOURCES.map(source => (
+                        <option key={source.value} value={source.value}>{source.label}</option>
+                      ))}
+                    </select>
+                  </div>
+                </div>
+
+                <div className="grid grid-cols-2 gap-3">
+                  <div>
+                    <label htmlFor="quiz-created-from" className="block text-sm font-medium text-gray-700 mb-2">
+                      Added From
+                    </label>
+                    <input
+                      id="quiz-created-from"
+                      type="date"
+                      value={createdFrom}
+                      max={createdTo || undefined}
+                      onChange={(e) => setCreatedFrom(e.target.value)}
+                      disabled={!!wordIds}
+                      className="input w-full disabled:bg-gray-100"
+                    />
+                  </div>
+                  <div>
+                    <label htmlFor="quiz-created-to" className="block text-sm font-medium text-gray-700 mb-2">
+                      Added To
+                    </label>
+                    <input
+                      id="quiz-created-to"
+                      type="date"
+                      value={createdTo}
+                      min={createdFrom || undefined}
+                      onChange={(e) => setCreatedTo(e.target.value)}
+                      disabled={!!wordIds}
+                      className="input w-full disabled:bg-gray-100"
+                    />
+                  </div>
+                </div>
+
+                {studyMode !== 'flashcards' && (
+                  <div className="grid grid-cols-2 gap-3">
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-2">
+                        Timing
+                      </label>
+                      <select
+                        value={timingMode}
+                        onChange={(e) => setTimingMode(e.target.value as TimingMode)}
+                        disabled={practiceMode}
+                        className="input w-full disabled:bg-gray-100"
+                      >
+                        {TIMING_MODES.map(mode => (
+                          <option key={mode.value} value={mode.value}>{mode.label}</option>
+                        ))}
+                      </select>
+                    </div>
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-2">
+                        Seconds per Question
+                      </label>
+                      <select
+                        value={secondsPerQuestion}
+                        onChange={(e) => setSecondsPerQuestion(Number(e.target.value))}
+                        disabled={practiceMode || !isCountdown(timingMode)}
+                        className="input w-full disabled:bg-gray-100"
+                      >
+                        <option value={15}>15 seconds</option>
+                        <option value={30}>30 seconds</option>
+                        <option value={45}>45 seconds</option>
+                        <option value={60}>60 seconds</option>
+                      </select>
+                    </div>
+                  </div>
+                )}
+
+                {studyMode !== 'flashcards' && (
+                  <label className="flex items-start">
+                    <input
+                      type="checkbox"
+                      checked={practiceMode}
+                      onChange={(e) => {
+                        setPracticeMode(e.target.checked);
+                        // Feedback pauses between questions, so practice is untimed
+                        if (e.target.checked) setTimingMode('untimed');
+                      }}
+                      className="mr-2 mt-1"
+                    />
+                    <span>
+                      <span className="block text-sm font-medium text-gray-700">Practice mode</span>
+                      <span className="block text-xs text-gray-500">
+                        See the answer straight away and retry missed words until you get them right
+                      </span>
+                    </span>
+                  </label>
+                )}
+
+                {studyMode !== 'flashcards' && (
+                  <label className="flex items-start">
+                    <input
+                      type="checkbox"
+                      checked={isAdaptive}
+                      onChange={(e) => setAdaptive(e.target.checked)}
+                      disabled={!canAdapt}
+                      className="mr-2 mt-1"
+                    />
+                    <span>
+                      <span className="block text-sm font-medium text-gray-700">Adaptive difficulty</span>
+                      <span className="block text-xs text-gray-500">
+                        {canAdapt
+                          ? 'Focus on words you miss or haven\'t seen lately, and get harder or easier words as you go'
+                          : 'Not available for matching pairs'}
+                      </span>
+                    </span>
+                  </label>
+                )}
               </div>
 
               {/* Quiz Preview */}
@@ -354,39 +1189,115 @@ const Quiz: React.FC = () => {
                 <h3 className="text-lg font-medium text-gray-900 mb-4">Quiz Preview</h3>
                 <div className="space-y-4">
                   <div className="flex items-center space-x-3">
-                    {getQuizTypeIcon(quizType)}
+                    {studyMode === 'flashcards' ? <Layers className="h-5 w-5" /> : getQuizTypeIcon(quizType)}
                     <div>
-                      <p className="font-medium text-gray-900">{getQuizTypeLabel(quizType)}</p>
-                      <p className="text-sm text-gray-600">{questionCount} questions</p>
+                      <p className="font-medium text-gray-900">
+                        {studyMode === 'flashcards' ? 'Flashcards' : getQuizTypeLabel(quizType)}
+                      </p>
+                      <p className="text-sm text-gray-600">
+                        {effectiveQuestionCount} {studyMode === 'flashcards' ? 'cards' : quizType === 'match' ? 'words' : 'questions'}
+                      </p>
                     </div>
                   </div>
                   <div className="flex items-center space-x-3">
                     <Clock className="h-5 w-5 text-gray-400" />
                     <div>
                       <p className="font-medium text-gray-900">Time Limit</p>
-                      <p className="text-sm text-gray-600">{questionCount * 30} seconds</p>
+                      <p className="text-sm text-gray-600">
+                        {getTimeLimitLabel()}
+                      </p>
                     </div>
                   </div>
                   <div className="flex items-center space-x-3">
                     <Target className="h-5 w-5 text-gray-400" />
                     <div>
-                      <p className="font-medium text-gray-900">Status Filter</p>
+                      <p className="font-medium text-gray-900">Word Filter</p>
                       <p className="text-sm text-gray-600">
-                        {status === 'all' ? 'All words' : status.charAt(0).toUpperCase() + status.slice(1)}
+                        {getWordCriteriaLabel()}
                       </p>
+                      {vocabularyEntries && (
+                        <p className="text-xs text-gray-500">
+                          {wordPool.length} matching word{wordPool.length === 1 ? '' : 's'}
+                        </p>
+                      )}
                     </div>
                   </div>
+                  {isAdaptive && (
+                    <div className="border-t border-gray-200 pt-4">
+                      <div className="flex items-center justify-between mb-2">
+                        <div className="flex items-center space-x-2">
+                          <TrendingUp className="h-5 w-5 text-gray-400" />
+                          <p className="font-medium text-gray-900">Why these words</p>
+                        </div>
+                        <button
+                          onClick={() => setAdaptiveSeed(createSeed())}
+                          className="text-sm text-primary-600 hover:text-primary-800 flex items-center"
+                        >
+                          <Shuffle className="h-4 w-4 mr-1" />
+                          Pick again
+                        </button>
+                      </div>
+                      {entriesLoading ? (
+                        <p className="text-sm text-gray-500">Loading your words...</p>
+                      ) : adaptivePicks.length === 0 ? (
+                        <p className="text-sm text-gray-500">No words match the selected criteria.</p>
+                      ) : (
+                        <>
+                          <ul className="space-y-2 max-h-64 overflow-y-auto">
+                            {adaptivePicks.map(pick => (
+                              <li key={pick.entry.id} className="text-sm">
+                                <span className="font-medium text-gray-900">{pick.entry.word}</span>{' '}
+                                <span className="text-gray-500">— {pick.reasons.join(', ')}</span>
+                              </li>
+                            ))}
+                          </ul>
+                          <p className="mt-3 text-xs text-gray-500">
+                            {adaptivePicks.length > effectiveQuestionCount
+                              ? `${effectiveQuestionCount} of these ${adaptivePicks.length} words will be asked. `
+                              : ''}
+                            Words you tend to miss, find hard or haven't reviewed lately are picked more often.
+                            The quiz starts at a medium level, moves to harder words while you answer correctly
+                            and to easier ones after a mistake.
+                          </p>
+                        </>
+                      )}
+                    </div>
+                  )}
                 </div>
               </div>
             </div>
 
-            <div className="mt-8 flex justify-center">
+            {studyMode !== 'flashcards' && (
+              <label className="mt-6 flex items-center justify-center text-sm text-gray-600">
+                <input
+                  type="checkbox"
+                  checked={includeSeedCode}
+                  onChange={(e) => setIncludeSeedCode(e.target.checked)}
+                  disabled={!isPrintableQuestionType(quizType)}
+                  className="mr-2"
+                />
+                Include a QR code of the quiz seed on printed worksheets
+              </label>
+            )}
+
+            <div className="mt-8 flex justify-center space-x-3">
+              {studyMode !== 'flashcards' && (
+                <button
+                  onClick={printWorksheet}
+                  disabled={entriesLoading || isPrinting || !isPrintableQuestionType(quizType)}
+                  title={isPrintableQuestionType(quizType) ? undefined : 'Audio questions can\'t be printed'}
+                  className="btn btn-outline btn-lg flex items-center space-x-2 disabled:opacity-50"
+                >
+                  {isPrinting ? <Loader2 className="h-5 w-5 animate-spin" /> : <Printer className="h-5 w-5" />}
+                  <span>{isPrinting ? 'Preparing...' : 'Print as Worksheet'}</span>
+                </button>
+              )}
               <button
-                onClick={startQuiz}
-                disabled={isLoading}
+                onClick={studyMode === 'flashcards' ? startFlashcards : startQuiz}
+                disabled={usesLocalWords ? entriesLoading : isLoading}
                 className="btn btn-primary btn-lg flex items-center space-x-2"
               >
-                {isLoading ? (
+                {(usesLocalWords ? entriesLoading : isLoading) ? (
                   <>
                     <div className="animate-spin rounded-full h-5 w-5 border-b-2 border-white"></div>
                     <span>Loading...</span>
@@ -394,7 +1305,7 @@ const Quiz: React.FC = () => {
                 ) : (
                   <>
                     <Play className="h-5 w-5" />
-                    <span>Start Quiz</span>
+                    <span>{studyMode === 'flashcards' ? 'Start Flashcards' : 'Start Quiz'}</span>
                   </>
                 )}
               </button>
@@ -419,7 +1330,27 @@ const Quiz: React.FC = () => {
 
   const currentQuestion = quizData.questions[currentQuestionIndex];
   const isLastQuestion = currentQuestionIndex === quizData.questions.length - 1;
-  const hasAnswered = selectedAnswers[currentQuestion.wordId];
+  const hasAnswered = isQuestionAnswered(currentQuestion, selectedAnswers);
+  const answeredCount = quizData.questions.filter(question => isQuestionAnswered(question, selectedAnswers)).length;
+  // Matching rounds keep their meanings in options but aren't answered by picking one
+  const choiceOptions = currentQuestion.pairs ? [] : currentQuestion.options;
+
+  // Up/Down move the selection within the options, like a native radio group
+  const handleOptionKeyDown = (e: React.KeyboardEvent, index: number) => {
+    if (e.key !== 'ArrowDown' && e.key !== 'ArrowUp') return;
+    e.preventDefault();
+    const count = currentQuestion.options.length;
+    const nextIndex = (index + (e.key === 'ArrowDown' ? 1 : count - 1)) % count;
+    // Practice answers lock in when chosen, so only move focus there
+    if (!practiceMode) {
+      handleAnswerSelect(currentQuestion.wordId, currentQuestion.options[nextIndex]);
+    }
+    optionRefs.current[nextIndex]?.focus();
+  };
+
+  const practiceEntry = practiceFeedback
+    ? vocabularyEntries?.find(entry => entry.id === currentQuestion.wordId)
+    : undefined;
 
   return (
     <div className="max-w-4xl mx-auto">
@@ -433,13 +1364,35 @@ const Quiz: React.FC = () => {
               </p>
             </div>
             <div className="flex items-center space-x-4">
-              <div className="flex items-center space-x-2 text-sm text-gray-600">
-                <Clock className="h-4 w-4" />
-                <span>{formatTime(timeLeft)}</span>
+              {isCountdown(timingMode) ? (
+                <div
+                  className={`flex items-center space-x-2 text-sm ${
+                    timeLeft <= (timingMode === 'question' ? 5 : 30) ? 'text-red-600 font-semibold' : 'text-gray-600'
+                  }`}
+                  role="timer"
+                  aria-label={timingMode === 'question' ? 'Time remaining for this question' : 'Time remaining'}
+                >
+                  <Clock className="h-4 w-4" />
+                  <span>{formatTime(timeLeft)}</span>
+                </div>
+              ) : (
+                <div className="flex items-center space-x-2 text-sm text-gray-600" role="timer" aria-label="Time elapsed">
+                  <Clock className="h-4 w-4" />
+                  <span>{formatTime(elapsedSeconds)}</span>
+                </div>
+              )}
+              <div className="sr-only" role="status" aria-live="polite">
+                {timerAnnouncement}
               </div>
+              {adaptiveChallenges && (
+                <div className="flex items-center space-x-2 text-sm text-gray-600" title="Adaptive difficulty level">
+                  <TrendingUp className="h-4 w-4" />
+                  <span>Level {adaptiveLevel.toFixed(1)}/{MAX_LEVEL}</span>
+                </div>
+              )}
               <div className="flex items-center space-x-2 text-sm text-gray-600">
                 <Trophy className="h-4 w-4" />
-                <span>{Object.keys(selectedAnswers).length}/{quizData.questions.length}</span>
+                <span>{answeredCount}/{quizData.questions.length}</span>
               </div>
             </div>
           </div>
@@ -469,35 +1422,198 @@ const Quiz: React.FC = () => {
                   {currentQuestion.type.replace('-', ' ')}
                 </span>
               </div>
-              <h3 className="text-xl font-semibold text-gray-900">{currentQuestion.question}</h3>
+              <h3 id="quiz-question" className="text-xl font-semibold text-gray-900">{currentQuestion.question}</h3>
             </div>
 
+            {isAudioQuestion(currentQuestion.type) && (
+              <button
+                type="button"
+                onClick={() => speak(currentQuestion.word)}
+                className="btn-secondary mb-4"
+              >
+                <Volume2 className="mr-2 h-4 w-4" />
+                Play Word
+              </button>
+            )}
+
+            {/* Free-text Answer */}
+            {isTypedQuestion(currentQuestion.type) && (
+              <div className="space-y-3">
+                <input
+                  key={currentQuestionIndex}
+                  type="text"
+                  value={selectedAnswers[currentQuestion.wordId] || ''}
+                  onChange={(e) => handleAnswerSelect(currentQuestion.wordId, e.target.value)}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter' && hasAnswered) {
+                      if (isLastQuestion && !practiceMode) {
+                        setShowFinishConfirm(true);
+                      } else {
+                        handleNextQuestion();
+                      }
+                    }
+                  }}
+                  aria-labelledby="quiz-question"
+                  readOnly={!!practiceFeedback}
+                  placeholder={currentQuestion.type === 'spelling' ? 'Type what you hear...' : 'Type the word...'}
+                  className="input text-lg"
+                  autoComplete="off"
+                  autoCorrect="off"
+                  autoCapitalize="off"
+                  spellCheck={false}
+                  autoFocus
+                />
+              </div>
+            )}
+
+            {/* Matching Pairs */}
+            {currentQuestion.pairs && (
+              <MatchingPairs
+                key={currentQuestionIndex}
+                question={currentQuestion}
+                selectedAnswers={selectedAnswers}
+                onMatch={handleAnswerSelect}
+                revealed={!!practiceFeedback}
+              />
+            )}
+
             {/* Options */}
-            <div className="space-y-3">
-              {currentQuestion.options.map((option, index) => (
-                <button
-                  key={index}
-                  onClick={() => handleAnswerSelect(currentQuestion.wordId, option)}
-                  className={`w-full p-4 text-left rounded-lg border-2 transition-all ${
-                    selectedAnswers[currentQuestion.wordId] === option
-                      ? 'border-primary-500 bg-primary-50 text-primary-700'
-                      : 'border-gray-200 hover:border-gray-300 hover:bg-gray-50'
-                  }`}
-                >
-                  <div className="flex items-center space-x-3">
-                    <div className={`w-6 h-6 rounded-full border-2 flex items-center justify-center ${
-                      selectedAnswers[currentQuestion.wordId] === option
-                        ? 'border-primary-500 bg-primary-500'
-                        : 'border-gray-300'
-                    }`}>
-                      {selectedAnswers[currentQuestion.wordId] === option && (
-                        <div className="w-2 h-2 bg-white rounded-full"></div>
-                      )}
+            {choiceOptions.length > 0 && (
+              <div className="space-y-3" role="radiogroup" aria-labelledby="quiz-question">
+                {choiceOptions.map((option, index) => {
+                  const isSelected = selectedAnswers[currentQuestion.wordId] === option;
+                  // Only one option is tabbable: the selected one, else the first
+                  const isTabStop = isSelected || (!hasAnswered && index === 0);
+                  const isRevealedAnswer = !!practiceFeedback && option === currentQuestion.correctAnswer;
+                  const isRevealedMistake = !!practiceFeedback && isSelected && !practiceFeedback.correct;
+                  return (
+                    <button
+                      key={index}
+                      ref={(element) => { optionRefs.current[index] = element; }}
+                      role="radio"
+                      aria-checked={isSelected}
+                      aria-disabled={!!practiceFeedback}
+                      tabIndex={isTabStop ? 0 : -1}
+                      onClick={() => handleOptionSelect(currentQuestion.wordId, option)}
+                      onKeyDown={(e) => handleOptionKeyDown(e, index)}
+                      className={`w-full p-4 text-left rounded-lg border-2 transition-all ${
+                        isRevealedAnswer
+                          ? 'border-green-500 bg-green-50 text-green-800'
+                          : isRevealedMistake
+                            ? 'border-red-500 bg-red-50 text-red-800'
+                            : isSelected
+                              ? 'border-primary-500 bg-primary-50 text-primary-700'
+                              : practiceFeedback
+                                ? 'border-gray-200 text-gray-500'
+                                : 'border-gray-200 hover:border-gray-300 hover:bg-gray-50'
+                      }`}
+                    >
+                      <div className="flex items-center space-x-3">
+                        <div className={`w-6 h-6 rounded-full border-2 flex items-center justify-center ${
+                          isSelected
+                            ? 'border-primary-500 bg-primary-500'
+                            : 'border-gray-300'
+                        }`}>
+                          {isSelected && (
+                            <div className="w-2 h-2 bg-white rounded-full"></div>
+                          )}
+                        </div>
+                        <span className="font-medium flex-1">{option}</span>
+                        <span className="text-xs font-mono text-gray-400" aria-hidden="true">
+                          {index + 1}
+                        </span>
+                      </div>
+                    </button>
+                  );
+                })}
+              </div>
+            )}
+
+            {/* Practice Feedback */}
+            {practiceFeedback && (
+              <div
+                role="status"
+                className={`mt-6 rounded-lg border-2 p-4 ${
+                  practiceFeedback.correct ? 'border-green-200 bg-green-50' : 'border-red-200 bg-red-50'
+                }`}
+              >
+                <div className="flex items-center space-x-2 mb-3">
+                  {practiceFeedback.correct ? (
+                    <CheckCircle className="h-5 w-5 text-green-600" />
+                  ) : (
+                    <XCircle className="h-5 w-5 text-red-600" />
+                  )}
+                  <span className={`font-semibold ${practiceFeedback.correct ? 'text-green-800' : 'text-red-800'}`}>
+                    {practiceFeedback.verdict === 'almost'
+                      ? 'Almost — check the spelling'
+                      : practiceFeedback.correct ? 'Correct!' : 'Not quite'}
+                  </span>
+                </div>
+                <div className="space-y-2 text-sm">
+                  {practiceFeedback.verdict === 'almost' && (
+                    <div>
+                      <span className="font-medium text-gray-900">Your answer:</span>{' '}
+                      <AnswerDiff
+                        answer={selectedAnswers[currentQuestion.wordId] || ''}
+                        expected={currentQuestion.correctAnswer}
+                      />
                     </div>
-                    <span className="font-medium">{option}</span>
-                  </div>
+                  )}
+                  {/* Matching rounds show the right pairs on the board itself */}
+                  {!currentQuestion.pairs && (
+                    <>
+                    {!practiceFeedback.correct && (
+                      <div>
+                        <span className="font-medium text-gray-900">Correct answer:</span>{' '}
+                        <span className="text-green-700 font-semibold">{currentQuestion.correctAnswer}</span>
+                      </div>
+                    )}
+                    <div>
+                      <span className="font-medium text-gray-900">{currentQuestion.word}:</span>{' '}
+                      <span className="text-gray-700">{practiceEntry?.meaning || currentQuestion.correctAnswer}</span>
+                    </div>
+                    {practiceEntry?.example && (
+                      <p className="text-gray-600 italic">"{practiceEntry.example}"</p>
+                    )}
+                    {practiceEntry?.synonyms && practiceEntry.synonyms.length > 0 && (
+                      <div className="flex flex-wrap items-center gap-1">
+                        <span className="font-medium text-gray-900 mr-1">Synonyms:</span>
+                        {practiceEntry.synonyms.map(synonym => (
+                          <span key={synonym} className="px-2 py-0.5 bg-white rounded-full text-xs text-gray-700 border border-gray-200">
+                            {synonym}
+                          </span>
+                        ))}
+                      </div>
+                    )}
+                    </>
+                  )}
+                  {!practiceFeedback.correct && (
+                    <p className="text-xs text-gray-500">
+                      {currentQuestion.pairs ? 'Missed pairs' : 'This word'} will come back at the end of the session.
+                    </p>
+                  )}
+                </div>
+                <button onClick={handleNextQuestion} className="btn-primary mt-4" autoFocus>
+                  {isLastQuestion ? 'Finish' : 'Continue'}
+                  <ArrowRight className="ml-2 h-4 w-4" />
                 </button>
-              ))}
+              </div>
+            )}
+
+            {/* Keyboard Legend */}
+            <div className="mt-4 flex flex-wrap items-center gap-x-4 gap-y-1 text-xs text-gray-500" aria-hidden="true">
+              <Keyboard className="h-4 w-4" />
+              {choiceOptions.length > 0 && (
+                <span><kbd className="font-mono">1</kbd>–<kbd className="font-mono">4</kbd> or <kbd className="font-mono">A</kbd>–<kbd className="font-mono">D</kbd> choose</span>
+              )}
+              {currentQuestion.pairs && (
+                <span><kbd className="font-mono">Tab</kbd> <kbd className="font-mono">↑</kbd> <kbd className="font-mono">↓</kbd> move, <kbd className="font-mono">Space</kbd> pick</span>
+              )}
+              <span><kbd className="font-mono">Enter</kbd> next</span>
+              {choiceOptions.length > 0 && (
+                <span><kbd className="font-mono">←</kbd> <kbd className="font-mono">→</kbd> previous / next</span>
+              )}
+              <span><kbd className="font-mono">Esc</kbd> finish</span>
             </div>
           </div>
 
@@ -505,7 +1621,7 @@ const Quiz: React.FC = () => {
           <div className="flex justify-between items-center">
             <button
               onClick={handlePreviousQuestion}
-              disabled={currentQuestionIndex === 0}
+              disabled={currentQuestionIndex === 0 || !canGoBack}
               className="btn btn-outline flex items-center space-x-2 disabled:opacity-50"
             >
               <ArrowLeft className="h-4 w-4" />
@@ -530,16 +1646,46 @@ const Quiz: React.FC = () => {
 
             <button
               onClick={handleNextQuestion}
-              disabled={!hasAnswered || isLastQuestion}
+              disabled={!hasAnswered || (isLastQuestion && !practiceMode)}
               className="btn btn-primary flex items-center space-x-2 disabled:opacity-50"
             >
-              <span>{isLastQuestion ? 'Finish' : 'Next'}</span>
+              <span>
+                {practiceMode && !practiceFeedback ? 'Check' : isLastQuestion ? 'Finish' : 'Next'}
+              </span>
               <ArrowRight className="h-4 w-4" />
             </button>
           </div>
         </div>
       </div>
 
+      {/* Finish Confirmation */}
+      {showFinishConfirm && !showResults && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+          <div
+            role="alertdialog"
+            aria-modal="true"
+            aria-labelledby="finish-quiz-title"
+            aria-describedby="finish-quiz-description"
+            className="bg-white rounded-lg p-6 max-w-md w-full mx-4"
+          >
+            <h3 id="finish-quiz-title" className="text-lg font-semibold text-gray-900 mb-2">Finish quiz?</h3>
+            <p id="finish-quiz-description" className="text-sm text-gray-600 mb-6">
+              You've answered {answeredCount} of {quizData.questions.length} questions.
+              {answeredCount < quizData.questions.length && ' Unanswered questions will be marked incorrect.'}
+            </p>
+            <div className="flex justify-end space-x-3">
+              <button onClick={() => setShowFinishConfirm(false)} className="btn-secondary" autoFocus>
+                Keep Going
+              </button>
+              <button onClick={handleFinishQuiz} className="btn-primary">
+                <Trophy className="mr-2 h-4 w-4" />
+                Finish Quiz
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
       {/* Results Modal */}
       {showResults && (
         <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
@@ -559,111 +1705,14 @@ const Quiz: React.FC = () => {
                 </div>
                 <div className="bg-red-50 rounded-lg p-4">
                   <div className="text-2xl font-bold text-red-600">
-                    {submitResultsMutation.data?.totalQuestions - (submitResultsMutation.data?.correctAnswers || 0)}
+                    {(submitResultsMutation.data?.totalQuestions || 0) - (submitResultsMutation.data?.correctAnswers || 0)}
                   </div>
                   <div className="text-sm text-red-600">Incorrect</div>
                 </div>
               </div>
             </div>
 
-            {/* Summary */}
-            {quizResults.length > 0 && (
-              <div className="mb-6">
-                <h4 className="text-lg font-semibold text-gray-900 mb-4">Performance Summary</h4>
-                <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-6">
-                  <div className="bg-blue-50 rounded-lg p-4">
-                    <h5 className="font-medium text-blue-900 mb-2">Words Mastered</h5>
-                    <div className="space-y-2">
-                      {quizResults
-                        .filter(result => result.correct)
-                        .map((result, index) => (
-                          <div key={index} className="flex items-center space-x-2">
-                            <CheckCircle className="h-4 w-4 text-green-600" />
-                            <span className="text-sm text-blue-800 font-medium">{result.word}</span>
-                          </div>
-                        ))}
-                      {quizResults.filter(result => result.correct).length === 0 && (
-                        <p className="text-sm text-blue-600">No words mastered in this quiz</p>
-                      )}
-                    </div>
-                  </div>
-                  <div className="bg-red-50 rounded-lg p-4">
-                    <h5 className="font-medium text-red-900 mb-2">Words to Review</h5>
-                    <div className="space-y-2">
-                      {quizResults
-                        .filter(result => !result.correct)
-                        .map((result, index) => (
-                          <div key={index} className="flex items-center space-x-2">
-                            <XCircle className="h-4 w-4 text-red-600" />
-                            <span className="text-sm text-red-800 font-medium">{result.word}</span>
-                          </div>
-                        ))}
-                      {quizResults.filter(result => !result.correct).length === 0 && (
-                        <p className="text-sm text-red-600">All words answered correctly!</p>
-                      )}
-                    </div>
-                  </div>
-                </div>
-              </div>
-            )}
-
-            {/* Detailed Results */}
-            {quizResults.length > 0 && (
-              <div className="mb-6">
-                <h4 className="text-lg font-semibold text-gray-900 mb-4">Detailed Results</h4>
-                <div className="space-y-4">
-                  {quizResults.map((result, index) => (
-                    <div
-                      key={index}
-                      className={`p-4 rounded-lg border-2 ${
-                        result.correct
-                          ? 'border-green-200 bg-green-50'
-                          : 'border-red-200 bg-red-50'
-                      }`}
-                    >
-                      <div className="flex items-start justify-between">
-                        <div className="flex-1">
-                          <div className="flex items-center space-x-2 mb-2">
-                            {result.correct ? (
-                              <CheckCircle className="h-5 w-5 text-green-600" />
-                            ) : (
-                              <XCircle className="h-5 w-5 text-red-600" />
-                            )}
-                            <span className="font-medium text-gray-900">
-                              Question {index + 1}
-                            </span>
-                            <span className={`text-sm px-2 py-1 rounded-full ${
-                              result.correct
-                                ? 'bg-green-100 text-green-800'
-                                : 'bg-red-100 text-red-800'
-                            }`}>
-                              {result.correct ? 'Correct' : 'Incorrect'}
-                            </span>
-                          </div>
-                          <p className="text-sm text-gray-700 mb-2">{result.question}</p>
-                          <div className="text-sm">
-                            <span className="font-medium text-gray-900">Word:</span>{' '}
-                            <span className="text-blue-600 font-semibold">{result.word}</span>
-                          </div>
-                          {!result.correct && (
-                            <div className="mt-2 space-y-1">
-                              <div className="text-sm">
-                                <span className="font-medium text-red-600">Your answer:</span>{' '}
-                                <span className="text-red-700">{result.selectedAnswer || 'No answer'}</span>
-                              </div>
-                              <div className="text-sm">
-                                <span className="font-medium text-green-600">Correct answer:</span>{' '}
-                                <span className="text-green-700">{result.correctAnswer}</span>
-                              </div>
-                            </div>
-                          )}
-                        </div>
-                      </div>
-                    </div>
-                  ))}
-                </div>
-              </div>
-            )}
+            <QuizResultsBreakdown results={quizResults} />
 
             {/* Action Buttons */}
             <div className="space-y-3">
@@ -673,16 +1722,14 @@ const Quiz: React.FC = () => {
               >
                 Take Another Quiz
               </button>
-              {quizResults.some(result => !result.correct) && (
-                <button
-                  onClick={markWordsForReview}
-                  className="btn btn-warning w-full"
-                >
-                  Mark Incorrect Words for Review
-                </button>
-              )}
               <button
-                onClick={() => window.location.href = '/vocabulary'}
+                onClick={() => navigate('/quiz/history')}
+                className="btn btn-outline w-full"
+              >
+                View Quiz History
+              </button>
+              <button
+                onClick={() => navigate('/vocabulary')}
                 className="btn btn-outline w-full"
               >
                 View Vocabulary
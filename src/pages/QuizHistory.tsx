@@ -0,0 +1,240 @@
+import React, { useMemo, useState } from 'react';
+import { Link, useNavigate, useParams } from 'react-router-dom';
+import {
+  ArrowLeft,
+  Calendar,
+  Clock,
+  History,
+  Play,
+  RotateCcw,
+  Trophy
+} from 'lucide-react';
+import { useAuth } from '../contexts/AuthContext';
+import { QuizHistoryEntry, getMissedWordIds, getQuizHistory } from '../utils/quizHistory';
+import QuizResultsBreakdown from '../components/quiz/QuizResultsBreakdown';
+import { getQuizTypeIcon, getQuizTypeLabel, getWordFilterLabel } from '../components/quiz/quizTypes';
+
+const formatDuration = (seconds: number) => {
+  const mins = Math.floor(seconds / 60);
+  const secs = seconds % 60;
+  return mins > 0 ? `${mins}m ${secs.toString().padStart(2, '0')}s` : `${secs}s`;
+};
+
+const getScorePercent = (entry: QuizHistoryEntry) =>
+  entry.totalQuestions > 0 ? Math.round((entry.correctAnswers / entry.totalQuestions) * 100) : 0;
+
+const getScoreColor = (percent: number) => {
+  if (percent >= 80) return 'text-green-600';
+  if (percent >= 50) return 'text-yellow-600';
+  return 'text-red-600';
+};
+
+const QuizHistory: React.FC = () => {
+  const { sessionId } = useParams<{ sessionId: string }>();
+  const navigate = useNavigate();
+  const { user } = useAuth();
+  const [typeFilter, setTypeFilter] = useState('all');
+  const [wordFilter, setWordFilter] = useState('all');
+
+  const history = useMemo(() => getQuizHistory(user?.id), [user?.id]);
+
+  const quizTypes = useMemo(
+    () => Array.from(new Set(history.map(entry => entry.quizType))),
+    [history]
+  );
+
+  const filteredHistory = history.filter(entry =>
+    (typeFilter === 'all' || entry.quizType === typeFilter)
+    && (wordFilter === 'all' || entry.wordFilter === wordFilter)
+  );
+
+  const retakeMissedWords = (entry: QuizHistoryEntry) => {
+    navigate('/quiz', { state: { wordIds: getMissedWordIds(entry) } });
+  };
+
+  if (sessionId) {
+    const session = history.find(entry => entry.id === sessionId);
+
+    if (!session) {
+      return (
+        <div className="max-w-4xl mx-auto">
+          <div className="card">
+            <div className="card-body text-center py-12">
+              <History className="mx-auto h-12 w-12 text-gray-400" />
+              <h3 className="mt-2 text-sm font-medium text-gray-900">Session not found</h3>
+              <p className="mt-1 text-sm text-gray-500">
+                It may have been removed from this device's quiz history.
+              </p>
+              <div className="mt-6">
+                <Link to="/quiz/history" className="btn-primary">
+                  <ArrowLeft className="mr-2 h-4 w-4" />
+                  Back to History
+                </Link>
+              </div>
+            </div>
+          </div>
+        </div>
+      );
+    }
+
+    const scorePercent = getScorePercent(session);
+    const missedCount = getMissedWordIds(session).length;
+
+    return (
+      <div className="max-w-4xl mx-auto space-y-6">
+        <div>
+          <Link to="/quiz/history" className="text-sm text-primary-600 hover:text-primary-800 flex items-center">
+            <ArrowLeft className="h-4 w-4 mr-1" />
+            Back to History
+          </Link>
+        </div>
+
+        <div className="card">
+          <div className="card-header">
+            <div className="flex flex-col md:flex-row md:items-center md:justify-between">
+              <div className="flex items-center space-x-3">
+                {getQuizTypeIcon(session.quizType)}
+                <div>
+                  <h2 className="text-2xl font-bold text-gray-900">{getQuizTypeLabel(session.quizType)}</h2>
+                  <p className="text-gray-600">
+                    {new Date(session.completedAt).toLocaleString()} · {getWordFilterLabel(session.wordFilter)}
+                  </p>
+                </div>
+              </div>
+              <button
+                onClick={() => retakeMissedWords(session)}
+                disabled={missedCount === 0}
+                className="mt-4 md:mt-0 btn-primary disabled:opacity-50"
+              >
+                <RotateCcw className="mr-2 h-4 w-4" />
+                {missedCount > 0 ? `Retake ${missedCount} Missed Word${missedCount === 1 ? '' : 's'}` : 'No Missed Words'}
+              </button>
+            </div>
+          </div>
+          <div className="card-body">
+            <div className="grid grid-cols-3 gap-4 mb-6">
+              <div className="bg-gray-50 rounded-lg p-4 text-center">
+                <div className={`text-2xl font-bold ${getScoreColor(scorePercent)}`}>{scorePercent}%</div>
+                <div className="text-sm text-gray-600">Score</div>
+              </div>
+              <div className="bg-green-50 rounded-lg p-4 text-center">
+                <div className="text-2xl font-bold text-green-600">
+                  {session.correctAnswers}/{session.totalQuestions}
+                </div>
+                <div className="text-sm text-green-600">Correct</div>
+              </div>
+              <div className="bg-blue-50 rounded-lg p-4 text-center">
+                <div className="text-2xl font-bold text-blue-600">{formatDuration(session.durationSeconds)}</div>
+                <div className="text-sm text-blue-600">Duration</div>
+              </div>
+            </div>
+
+            <QuizResultsBreakdown results={session.results} />
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="max-w-4xl mx-auto">
+      <div className="card">
+        <div className="card-header">
+          <div className="flex flex-col md:flex-row md:items-center md:justify-between">
+            <div>
+              <h2 className="text-2xl font-bold text-gray-900">Quiz History</h2>
+              <p className="text-gray-600">Review your past quizzes and flashcard sessions</p>
+            </div>
+            <div className="mt-4 md:mt-0 flex space-x-2">
+              <select
+                value={typeFilter}
+                onChange={(e) => setTypeFilter(e.target.value)}
+                className="input"
+                aria-label="Filter by quiz type"
+              >
+                <option value="all">All types</option>
+                {quizTypes.map(type => (
+                  <option key={type} value={type}>{getQuizTypeLabel(type)}</option>
+                ))}
+              </select>
+              <select
+                value={wordFilter}
+                onChange={(e) => setWordFilter(e.target.value)}
+                className="input"
+                aria-label="Filter by word status"
+              >
+                <option value="all">Any status filter</option>
+                <option value="learning">Learning</option>
+                <option value="reviewing">Reviewing</option>
+                <option value="mastered">Mastered</option>
+                <option value="selected">Selected words</option>
+              </select>
+            </div>
+          </div>
+        </div>
+        <div className="card-body p-0">
+          {filteredHistory.length > 0 ? (
+            <div className="divide-y divide-gray-200">
+              {filteredHistory.map((entry) => {
+                const scorePercent = getScorePercent(entry);
+                return (
+                  <button
+                    key={entry.id}
+                    onClick={() => navigate(`/quiz/history/${entry.id}`)}
+                    className="w-full px-6 py-4 text-left hover:bg-gray-50 flex flex-col md:flex-row md:items-center md:justify-between"
+                  >
+                    <div className="flex items-center space-x-3">
+                      <div className="text-primary-600">{getQuizTypeIcon(entry.quizType)}</div>
+                      <div>
+                        <p className="font-medium text-gray-900">{getQuizTypeLabel(entry.quizType)}</p>
+                        <p className="text-sm text-gray-500 flex items-center">
+                          <Calendar className="h-3 w-3 mr-1" />
+                          {new Date(entry.completedAt).toLocaleString()} · {getWordFilterLabel(entry.wordFilter)}
+                        </p>
+                      </div>
+                    </div>
+                    <div className="mt-2 md:mt-0 flex items-center space-x-6 text-sm">
+                      <span className="flex items-center text-gray-600">
+                        <Clock className="h-4 w-4 mr-1" />
+                        {formatDuration(entry.durationSeconds)}
+                      </span>
+                      <span className="flex items-center text-gray-600">
+                        <Trophy className="h-4 w-4 mr-1" />
+                        {entry.correctAnswers}/{entry.totalQuestions}
+                      </span>
+                      <span className={`w-12 text-right font-semibold ${getScoreColor(scorePercent)}`}>
+                        {scorePercent}%
+                      </span>
+                    </div>
+                  </button>
+                );
+              })}
+            </div>
+          ) : (
+            <div className="text-center py-8">
+              <History className="mx-auto h-12 w-12 text-gray-400" />
+              <h3 className="mt-2 text-sm font-medium text-gray-900">
+                {history.length > 0 ? 'No sessions match these filters' : 'No quizzes yet'}
+              </h3>
+              <p className="mt-1 text-sm text-gray-500">
+                {history.length > 0
+                  ? 'Try a different quiz type or status filter.'
+                  : 'Finished quizzes and flashcard sessions will show up here.'}
+              </p>
+              {history.length === 0 && (
+                <div className="mt-6">
+                  <Link to="/quiz" className="btn-primary">
+                    <Play className="mr-2 h-4 w-4" />
+                    Start a Quiz
+                  </Link>
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default QuizHistory;
@@ -0,0 +1,315 @@
+import React, { useMemo, useState } from 'react';
+import { Link, useNavigate } from 'react-router-dom';
+import { useMutation, useQueryClient } from 'react-query';
+import {
+  AlarmClock,
+  CalendarClock,
+  CheckCircle,
+  Clock,
+  Play,
+  AlertCircle,
+  Plus
+} from 'lucide-react';
+import axios from 'axios';
+import toast from 'react-hot-toast';
+import { useVocabularyEntries } from '../hooks/useVocabularyEntries';
+import { addDays, toDayKey } from '../utils/activity';
+import { getOverdueDays, getReviewForecast, isDue, snoozeDate } from '../utils/scheduler';
+
+const Review: React.FC = () => {
+  const navigate = useNavigate();
+  const queryClient = useQueryClient();
+  const [reschedulingId, setReschedulingId] = useState<string | null>(null);
+  const [rescheduleDate, setRescheduleDate] = useState('');
+
+  const { data: entries, isLoading, error, refetch } = useVocabularyEntries();
+
+  // Move a word's next review date
+  const rescheduleMutation = useMutation(
+    async ({ id, nextReview }: { id: string; nextReview: string }) => {
+      await axios.put(`/vocabulary/${id}`, { next_review: nextReview });
+    },
+    {
+      onSuccess: () => {
+        queryClient.invalidateQueries('vocabulary');
+        toast.success('Review rescheduled');
+      },
+      onError: () => {
+        toast.error('Failed to reschedule review');
+      },
+    }
+  );
+
+  const dueWords = useMemo(() => {
+    const now = new Date();
+    return (entries || [])
+      .filter(entry => isDue(entry, now))
+      .sort((a, b) => getOverdueDays(b, now) - getOverdueDays(a, now));
+  }, [entries]);
+
+  const forecast = useMemo(() => getReviewForecast(entries || [], 7), [entries]);
+
+  const overdueCount = dueWords.filter(entry => getOverdueDays(entry) > 0).length;
+  const upcomingCount = forecast.slice(1).reduce((sum, day) => sum + day.count, 0);
+  const maxForecast = Math.max(1, ...forecast.map(day => day.count));
+
+  const startReview = () => {
+    navigate('/quiz', { state: { wordIds: dueWords.map(entry => entry.id) } });
+  };
+
+  const handleSnooze = (id: string, days: number) => {
+    rescheduleMutation.mutate({ id, nextReview: snoozeDate(days) });
+  };
+
+  const startRescheduling = (id: string) => {
+    setReschedulingId(id);
+    setRescheduleDate('');
+  };
+
+  const saveReschedule = (id: string) => {
+    if (!rescheduleDate) {
+      toast.error('Please pick a date');
+      return;
+    }
+    const [year, month, day] = rescheduleDate.split('-').map(Number);
+    rescheduleMutation.mutate({ id, nextReview: new Date(year, month - 1, day).toISOString() });
+    setReschedulingId(null);
+  };
+
+  const getDueLabel = (overdueDays: number) => {
+    if (overdueDays === 0) return 'Due today';
+    return `${overdueDays} day${overdueDays === 1 ? '' : 's'} overdue`;
+  };
+
+  const getStatusColor = (status: string) => {
+    const colors: { [key: string]: string } = {
+      learning: 'bg-blue-100 text-blue-800',
+      reviewing: 'bg-yellow-100 text-yellow-800',
+      mastered: 'bg-green-100 text-green-800',
+    };
+    return colors[status] || 'bg-gray-100 text-gray-800';
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="spinner w-8 h-8"></div>
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <div className="text-center py-8">
+        <p className="text-red-600">Error loading review queue</p>
+        <button onClick={() => refetch()} className="btn-primary mt-4">
+          Retry
+        </button>
+      </div>
+    );
+  }
+
+  // Local date, to match how the picked date is read back
+  const minRescheduleDate = toDayKey(addDays(new Date(), 1));
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">Review Queue</h1>
+          <p className="mt-1 text-sm text-gray-500">
+            Words that are due for review based on your spaced repetition schedule
+          </p>
+        </div>
+        <div className="mt-4 sm:mt-0">
+          <button
+            onClick={startReview}
+            disabled={dueWords.length === 0}
+            className="btn-primary disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <Play className="mr-2 h-4 w-4" />
+            Start Review ({dueWords.length})
+          </button>
+        </div>
+      </div>
+
+      {/* Statistics Cards */}
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+        <div className="card">
+          <div className="card-body">
+            <div className="flex items-center">
+              <div className="flex-shrink-0">
+                <Clock className="h-8 w-8 text-primary-600" />
+              </div>
+              <div className="ml-4">
+                <p className="text-sm font-medium text-gray-500">Due Now</p>
+                <p className="text-2xl font-bold text-gray-900">{dueWords.length}</p>
+              </div>
+            </div>
+          </div>
+        </div>
+
+        <div className="card">
+          <div className="card-body">
+            <div className="flex items-center">
+              <div className="flex-shrink-0">
+                <AlertCircle className="h-8 w-8 text-red-600" />
+              </div>
+              <div className="ml-4">
+                <p className="text-sm font-medium text-gray-500">Overdue</p>
+                <p className="text-2xl font-bold text-gray-900">{overdueCount}</p>
+              </div>
+            </div>
+          </div>
+        </div>
+
+        <div className="card">
+          <div className="card-body">
+            <div className="flex items-center">
+              <div className="flex-shrink-0">
+                <CalendarClock className="h-8 w-8 text-green-600" />
+              </div>
+              <div className="ml-4">
+                <p className="text-sm font-medium text-gray-500">Coming Up This Week</p>
+                <p className="text-2xl font-bold text-gray-900">{upcomingCount}</p>
+              </div>
+            </div>
+          </div>
+        </div>
+      </div>
+
+      {/* 7-day Forecast */}
+      <div className="card">
+        <div className="card-header">
+          <h3 className="text-lg font-medium text-gray-900">Next 7 Days</h3>
+        </div>
+        <div className="card-body">
+          <div className="flex items-end justify-between h-40 space-x-3">
+            {forecast.map((day, index) => (
+              <div key={day.date.toISOString()} className="flex-1 flex flex-col items-center h-full">
+                <div className="flex-1 w-full flex items-end">
+                  <div
+                    className={`w-full rounded-t ${index === 0 ? 'bg-primary-600' : 'bg-primary-300'} transition-all duration-300`}
+                    style={{ height: `${(day.count / maxForecast) * 100}%`, minHeight: day.count > 0 ? '4px' : 0 }}
+                    title={`${day.count} reviews`}
+                  />
+                </div>
+                <span className="mt-2 text-sm font-medium text-gray-900">{day.count}</span>
+                <span className="text-xs text-gray-500">
+                  {index === 0 ? 'Today' : day.date.toLocaleDateString('en-US', { weekday: 'short' })}
+                </span>
+              </div>
+            ))}
+          </div>
+        </div>
+      </div>
+
+      {/* Due Words */}
+      <div className="card">
+        <div className="card-header">
+          <h3 className="text-lg font-medium text-gray-900">Due Words ({dueWords.length})</h3>
+        </div>
+        <div className="card-body p-0">
+          {dueWords.length > 0 ? (
+            <div className="divide-y divide-gray-200">
+              {dueWords.map((entry) => {
+                const overdueDays = getOverdueDays(entry);
+                return (
+                  <div key={entry.id} className="px-6 py-4 flex flex-col md:flex-row md:items-center md:justify-between">
+                    <div className="flex-1 min-w-0">
+                      <div className="flex items-center space-x-2">
+                        <h4 className="text-base font-bold text-gray-900">{entry.word}</h4>
+                        <span className={`inline-flex items-center px-2 py-1 rounded-full text-xs font-medium ${getStatusColor(entry.status)}`}>
+                          {entry.status}
+                        </span>
+                        <span className={`text-xs font-medium ${overdueDays > 0 ? 'text-red-600' : 'text-gray-500'}`}>
+                          {getDueLabel(overdueDays)}
+                        </span>
+                      </div>
+                      <p className="text-sm text-gray-600 truncate mt-1">{entry.meaning}</p>
+                    </div>
+                    <div className="mt-3 md:mt-0 md:ml-4 flex items-center space-x-2">
+                      {reschedulingId === entry.id ? (
+                        <>
+                          <input
+                            type="date"
+                            value={rescheduleDate}
+                            min={minRescheduleDate}
+                            onChange={(e) => setRescheduleDate(e.target.value)}
+                            className="text-xs border border-gray-300 rounded px-2 py-1"
+                          />
+                          <button
+                            onClick={() => saveReschedule(entry.id)}
+                            className="text-xs bg-green-600 text-white px-2 py-1 rounded hover:bg-green-700"
+                          >
+                            Save
+                          </button>
+                          <button
+                            onClick={() => setReschedulingId(null)}
+                            className="text-xs bg-gray-600 text-white px-2 py-1 rounded hover:bg-gray-700"
+                          >
+                            Cancel
+                          </button>
+                        </>
+                      ) : (
+                        <>
+                          <button
+                            onClick={() => handleSnooze(entry.id, 1)}
+                            disabled={rescheduleMutation.isLoading}
+                            className="btn-secondary text-xs px-2 py-1"
+                            title="Snooze until tomorrow"
+                          >
+                            <AlarmClock className="mr-1 h-3 w-3" />
+                            1 day
+                          </button>
+                          <button
+                            onClick={() => handleSnooze(entry.id, 3)}
+                            disabled={rescheduleMutation.isLoading}
+                            className="btn-secondary text-xs px-2 py-1"
+                            title="Snooze for 3 days"
+                          >
+                            <AlarmClock className="mr-1 h-3 w-3" />
+                            3 days
+                          </button>
+                          <button
+                            onClick={() => startRescheduling(entry.id)}
+                            className="btn-secondary text-xs px-2 py-1"
+                            title="Pick a review date"
+                          >
+                            <CalendarClock className="mr-1 h-3 w-3" />
+                            Reschedule
+                          </button>
+                        </>
+                      )}
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          ) : (
+            <div className="text-center py-8">
+              <CheckCircle className="mx-auto h-12 w-12 text-green-500" />
+              <h3 className="mt-2 text-sm font-medium text-gray-900">All caught up!</h3>
+              <p className="mt-1 text-sm text-gray-500">
+                {entries && entries.length > 0
+                  ? 'No words are due for review right now.'
+                  : 'Add some words to start building your review schedule.'}
+              </p>
+              {(!entries || entries.length === 0) && (
+                <div className="mt-6">
+                  <Link to="/add-word" className="btn-primary">
+                    <Plus className="mr-2 h-4 w-4" />
+                    Add Word
+                  </Link>
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default Review;
@@ -1,4 +1,5 @@
-import React, { useState } from 'react';
+import React, { useEffect, useRef, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
 import { useQuery, useMutation, useQueryClient } from 'react-query';
 import { 
   Search, 
@@ -11,48 +12,41 @@ import {
   ChevronUp,
   BookOpen,
   ChevronRight,
-  Volume2,
   Calendar,
   Tag,
   FileText,
-  Loader2
+  Loader2,
+  Target,
+  X,
+  Minus
 } from 'lucide-react';
 import axios from 'axios';
 import toast from 'react-hot-toast';
 import jsPDF from 'jspdf';
 import 'jspdf-autotable';
+import { VocabularyEntry, VocabularyResponse } from '../types/vocabulary';
+import PronounceButton from '../components/PronounceButton';
+import TagPicker from '../components/TagPicker';
+import { useActivityTracker } from '../hooks/useActivityTracker';
+import { ALL_ENTRIES_KEY, fetchAllEntries, fetchEntries } from '../hooks/useVocabularyEntries';
+import { useTags } from '../hooks/useTags';
+import { useUndoStack } from '../hooks/useUndoStack';
+import { runBulk } from '../utils/bulk';
+import { normalizeTagName } from '../utils/tags';
+import { patchCachedEntry, removeCachedEntry } from '../utils/vocabularyCache';
 
-interface VocabularyEntry {
-  id: string;
-  word: string;
-  meaning: string;
-  example: string;
-  synonyms: string[];
-  antonyms: string[];
-  tags: string[];
-  status: string;
-  source: string;
-  source_text?: string;
-  notes?: string;
-  pronunciation?: string;
-  part_of_speech?: string;
-  difficulty?: number;
-  review_count?: number;
-  last_reviewed?: string;
-  next_review?: string;
-  created_at: string;
-  updated_at: string;
-}
-
-interface VocabularyResponse {
-  vocabulary: VocabularyEntry[];
-  totalPages: number;
-  currentPage: number;
+interface BulkProgress {
+  label: string;
+  done: number;
   total: number;
 }
 
 const Vocabulary: React.FC = () => {
   const queryClient = useQueryClient();
+  const navigate = useNavigate();
+  useActivityTracker('vocabulary');
+  const undoStack = useUndoStack();
+  const { tags, getTagColor } = useTags();
   const [currentPage, setCurrentPage] = useState(1);
   const [searchTerm, setSearchTerm] = useState('');
   const [selectedTag, setSelectedTag] = useState('');
@@ -61,11 +55,16 @@ const Vocabulary: React.FC = () => {
   const [sortOrder, setSortOrder] = useState('desc');
   const [showFilters, setShowFilters] = useState(false);
   const [expandedRows, setExpandedRows] = useState<Set<string>>(new Set());
+  // Selected rows, kept across pages
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
   const [editingTags, setEditingTags] = useState<string | null>(null);
   const [editingDifficulty, setEditingDifficulty] = useState<string | null>(null);
   const [tempTags, setTempTags] = useState<string[]>([]);
   const [tempDifficulty, setTempDifficulty] = useState<number>(1);
   const [isExporting, setIsExporting] = useState(false);
+  const [isSelectingAll, setIsSelectingAll] = useState(false);
+  const [bulkTag, setBulkTag] = useState('');
+  const [bulkProgress, setBulkProgress] = useState<BulkProgress | null>(null);
 
   // Fetch vocabulary data with automatic refetch
   const { data, isLoading, error, refetch } = useQuery<VocabularyResponse>(
@@ -86,14 +85,27 @@ const Vocabulary: React.FC = () => {
       return response.data;
     },
     {
-      refetchOnWindowFocus: true,
+      // A refetch would bring back words whose changes haven't been sent yet
+      refetchOnWindowFocus: undoStack.pendingCount === 0,
       refetchOnMount: true,
       staleTime: 30000, // 30 seconds
-      refetchInterval: 60000, // Refetch every minute
+      refetchInterval: undoStack.pendingCount === 0 ? 60000 : false, // Refetch every minute
       refetchIntervalInBackground: false, // Only refetch when tab is active
     }
   );
 
+  // Deleted words are already gone from the cache. Refetching while other
+  // changes are pending would bring back their old values, so the lists are
+  // refreshed once, after the undo stack has drained.
+  const needsRefresh = useRef(false);
+  useEffect(() => {
+    if (undoStack.pendingCount > 0 || !needsRefresh.current) return;
+    needsRefresh.current = false;
+    queryClient.invalidateQueries('vocabulary');
+    queryClient.invalidateQueries('vocabularyStats');
+    queryClient.invalidateQueries('recentWords');
+  }, [undoStack.pendingCount, queryClient]);
+
   // Delete vocabulary entry
   const deleteMutation = useMutation(
     async (id: string) => {
@@ -101,11 +113,7 @@ const Vocabulary: React.FC = () => {
     },
     {
       onSuccess: () => {
-        // Invalidate all related queries to ensure data consistency
-        queryClient.invalidateQueries('vocabulary');
-        queryClient.invalidateQueries('vocabularyStats');
-        queryClient.invalidateQueries('recentWords');
-        toast.success('Word deleted successfully');
+        needsRefresh.current = true;
       },
       onError: () => {
         toast.error('Failed to delete word');
@@ -113,18 +121,16 @@ const Vocabulary: React.FC = () => {
     }
   );
 
+  // Status, tag and difficulty changes are already in the cache (see
+  // vocabularyCache), so a successful save needs no refetch and a failed one
+  // is reverted by the undo stack
+
   // Update word status
   const updateStatusMutation = useMutation(
     async ({ id, status }: { id: string; status: string }) => {
       await axios.put(`/vocabulary/${id}`, { status });
     },
     {
-      onSuccess: () => {
-        queryClient.invalidateQueries('vocabulary');
-        queryClient.invalidateQueries('vocabularyStats');
-        queryClient.invalidateQueries('recentWords');
-        toast.success('Status updated successfully');
-      },
       onError: () => {
         toast.error('Failed to update status');
       },
@@ -137,12 +143,6 @@ const Vocabulary: React.FC = () => {
       await axios.put(`/vocabulary/${id}`, { tags });
     },
     {
-      onSuccess: () => {
-        queryClient.invalidateQueries('vocabulary');
-        queryClient.invalidateQueries('vocabularyStats');
-        queryClient.invalidateQueries('recentWords');
-        toast.success('Tags updated successfully');
-      },
       onError: () => {
         toast.error('Failed to update tags');
       },
@@ -155,30 +155,12 @@ const Vocabulary: React.FC = () => {
       await axios.put(`/vocabulary/${id}`, { difficulty });
     },
     {
-      onSuccess: () => {
-        queryClient.invalidateQueries('vocabulary');
-        queryClient.invalidateQueries('vocabularyStats');
-        queryClient.invalidateQueries('recentWords');
-        toast.success('Difficulty updated successfully');
-      },
       onError: () => {
         toast.error('Failed to update difficulty');
       },
     }
   );
 
-  const getTagColor = (tag: string) => {
-    const colors: { [key: string]: string } = {
-      learning: 'bg-blue-100 text-blue-800',
-      reviewing: 'bg-yellow-100 text-yellow-800',
-      mastered: 'bg-green-100 text-green-800',
-      favorite: 'bg-pink-100 text-pink-800',
-      difficult: 'bg-red-100 text-red-800',
-      important: 'bg-purple-100 text-purple-800',
-    };
-    return colors[tag] || 'bg-gray-100 text-gray-800';
-  };
-
   const getStatusColor = (status: string) => {
     const colors: { [key: string]: string } = {
       learning: 'bg-blue-100 text-blue-800',
@@ -199,22 +181,41 @@ const Vocabulary: React.FC = () => {
     return colors[difficulty as keyof typeof colors] || 'bg-gray-100 text-gray-800';
   };
 
-  const handleDelete = (id: string) => {
-    if (window.confirm('Are you sure you want to delete this word?')) {
-      deleteMutation.mutate(id);
-    }
+  // Row changes show at once and reach the server after the undo window
+  const handleDelete = (word: VocabularyEntry) => {
+    undoStack.push({
+      key: word.id,
+      message: `Deleted "${word.word}"`,
+      apply: () => removeCachedEntry(queryClient, word.id),
+      commit: () => deleteMutation.mutateAsync(word.id),
+    });
   };
 
   const handleStatusChange = (id: string, newStatus: string) => {
-    updateStatusMutation.mutate({ id, status: newStatus });
+    undoStack.push({
+      key: id,
+      message: `Status set to ${newStatus}`,
+      apply: () => patchCachedEntry(queryClient, id, { status: newStatus }),
+      commit: () => updateStatusMutation.mutateAsync({ id, status: newStatus }),
+    });
   };
 
   const handleTagsChange = (id: string, newTags: string[]) => {
-    updateTagsMutation.mutate({ id, tags: newTags });
+    undoStack.push({
+      key: id,
+      message: 'Tags updated',
+      apply: () => patchCachedEntry(queryClient, id, { tags: newTags }),
+      commit: () => updateTagsMutation.mutateAsync({ id, tags: newTags }),
+    });
   };
 
   const handleDifficultyChange = (id: string, newDifficulty: number) => {
-    updateDifficultyMutation.mutate({ id, difficulty: newDifficulty });
+    undoStack.push({
+      key: id,
+      message: `Difficulty set to level ${newDifficulty}`,
+      apply: () => patchCachedEntry(queryClient, id, { difficulty: newDifficulty }),
+      commit: () => updateDifficultyMutation.mutateAsync({ id, difficulty: newDifficulty }),
+    });
   };
 
   const startEditingTags = (id: string, currentTags: string[]) => {
@@ -242,14 +243,6 @@ const Vocabulary: React.FC = () => {
     setEditingDifficulty(null);
   };
 
-  const toggleTag = (tag: string) => {
-    if (tempTags.includes(tag)) {
-      setTempTags(tempTags.filter(t => t !== tag));
-    } else {
-      setTempTags([...tempTags, tag]);
-    }
-  };
-
   const toggleRowExpansion = (id: string) => {
     const newExpandedRows = new Set(expandedRows);
     if (newExpandedRows.has(id)) {
@@ -260,6 +253,205 @@ const Vocabulary: React.FC = () => {
     setExpandedRows(newExpandedRows);
   };
 
+  const toggleRowSelection = (id: string) => {
+    const newSelectedIds = new Set(selectedIds);
+    if (newSelectedIds.has(id)) {
+      newSelectedIds.delete(id);
+    } else {
+      newSelectedIds.add(id);
+    }
+    setSelectedIds(newSelectedIds);
+  };
+
+  const pageIds = data?.vocabulary.map(word => word.id) || [];
+  const isPageSelected = pageIds.length > 0 && pageIds.every(id => selectedIds.has(id));
+
+  const togglePageSelection = () => {
+    const newSelectedIds = new Set(selectedIds);
+    pageIds.forEach(id => {
+      if (isPageSelected) {
+        newSelectedIds.delete(id);
+      } else {
+        newSelectedIds.add(id);
+      }
+    });
+    setSelectedIds(newSelectedIds);
+  };
+
+  const quizSelectedWords = () => {
+    navigate('/quiz', { state: { wordIds: Array.from(selectedIds) } });
+  };
+
+  const isAllMatchingSelected = !!data && isPageSelected && selectedIds.size >= data.total;
+
+  // Select every word that matches the current search and filters, not just this page
+  const selectAllMatching = async () => {
+    setIsSelectingAll(true);
+    try {
+      const matching = await fetchEntries({
+        search: searchTerm || undefined,
+        tag: selectedTag || undefined,
+        status: selectedStatus || undefined,
+      });
+      const newSelectedIds = new Set(selectedIds);
+      matching.forEach(word => newSelectedIds.add(word.id));
+      setSelectedIds(newSelectedIds);
+    } catch (error: any) {
+      toast.error(error.response?.data?.error || 'Failed to select matching words');
+    } finally {
+      setIsSelectingAll(false);
+    }
+  };
+
+  // Selected words can be on other pages, so they're looked up in the full list
+  const getSelectedEntries = async () => {
+    try {
+      const entries = await queryClient.fetchQuery<VocabularyEntry[]>(ALL_ENTRIES_KEY, fetchAllEntries, {
+        staleTime: 30000,
+      });
+      return entries.filter(entry => selectedIds.has(entry.id));
+    } catch (error: any) {
+      toast.error(error.response?.data?.error || 'Failed to load the selected words');
+      return null;
+    }
+  };
+
+  const countWords = (count: number) => `${count} word${count === 1 ? '' : 's'}`;
+
+  // Apply a change to each word in the cache at once, with a single undo for
+  // the batch. The requests go out with progress in the table header once the
+  // undo window has passed; words the server rejects are put back.
+  const runBulkAction = ({
+    label,
+    entries,
+    patch,
+    send,
+    message,
+    onCommitted,
+  }: {
+    label: string;
+    entries: VocabularyEntry[];
+    // Change the word locally and return a function that reverts it
+    patch: (entry: VocabularyEntry) => () => void;
+    send: (entry: VocabularyEntry) => Promise<unknown>;
+    message: string;
+    onCommitted?: () => void;
+  }) => {
+    if (entries.length === 0) {
+      toast('Nothing to change for the selected words');
+      return;
+    }
+
+    const reverts = new Map<string, () => void>();
+    undoStack.push({
+      key: entries.map(entry => entry.id),
+      message,
+      apply: () => {
+        entries.forEach(entry => reverts.set(entry.id, patch(entry)));
+        return () => Array.from(reverts.values()).reverse().forEach(revert => revert());
+      },
+      commit: async () => {
+        setBulkProgress({ label, done: 0, total: entries.length });
+        const { failed } = await runBulk(entries, send, (done, total) =>
+          setBulkProgress({ label, done, total })
+        );
+        setBulkProgress(null);
+        failed.forEach(entry => reverts.get(entry.id)?.());
+        onCommitted?.();
+        if (failed.length > 0) {
+          toast.error(`${countWords(failed.length)} could not be changed`);
+        }
+      },
+    });
+  };
+
+  const bulkSetStatus = async (status: string) => {
+    const selected = await getSelectedEntries();
+    if (!selected) return;
+
+    const entries = selected.filter(entry => entry.status !== status);
+    runBulkAction({
+      label: 'Updating status',
+      entries,
+      patch: entry => patchCachedEntry(queryClient, entry.id, { status }),
+      send: entry => axios.put(`/vocabulary/${entry.id}`, { status }),
+      message: `Set ${countWords(entries.length)} to ${status}`,
+    });
+  };
+
+  const bulkSetDifficulty = async (difficulty: number) => {
+    const selected = await getSelectedEntries();
+    if (!selected) return;
+
+    const entries = selected.filter(entry => (entry.difficulty || 1) !== difficulty);
+    runBulkAction({
+      label: 'Updating difficulty',
+      entries,
+      patch: entry => patchCachedEntry(queryClient, entry.id, { difficulty }),
+      send: entry => axios.put(`/vocabulary/${entry.id}`, { difficulty }),
+      message: `Set ${countWords(entries.length)} to level ${difficulty}`,
+    });
+  };
+
+  const bulkChangeTag = async (tagName: string, add: boolean) => {
+    const tag = normalizeTagName(tagName);
+    if (!tag) return;
+
+    const selected = await getSelectedEntries();
+    if (!selected) return;
+
+    const entries = selected.filter(entry => entry.tags.includes(tag) !== add);
+    const changeTags = (entry: VocabularyEntry) => add ? [...entry.tags, tag] : entry.tags.filter(t => t !== tag);
+    runBulkAction({
+      label: add ? 'Adding tag' : 'Removing tag',
+      entries,
+      patch: entry => patchCachedEntry(queryClient, entry.id, { tags: changeTags(entry) }),
+      send: entry => axios.put(`/vocabulary/${entry.id}`, { tags: changeTags(entry) }),
+      message: `${add ? 'Tagged' : 'Untagged'} ${countWords(entries.length)} ${add ? 'with' : 'from'} "${tag}"`,
+    });
+  };
+
+  const setSelected = (id: string, selected: boolean) => setSelectedIds(current => {
+    const newSelectedIds = new Set(current);
+    if (selected) {
+      newSelectedIds.add(id);
+    } else {
+      newSelectedIds.delete(id);
+    }
+    return newSelectedIds;
+  });
+
+  // Deleted words leave the selection until the delete is undone
+  const bulkDelete = async () => {
+    if (!window.confirm(`Are you sure you want to delete ${countWords(selectedIds.size)}?`)) return;
+
+    const selected = await getSelectedEntries();
+    if (!selected) return;
+
+    runBulkAction({
+      label: 'Deleting',
+      entries: selected,
+      patch: entry => {
+        const restore = removeCachedEntry(queryClient, entry.id);
+        setSelected(entry.id, false);
+        return () => {
+          restore();
+          setSelected(entry.id, true);
+        };
+      },
+      send: entry => axios.delete(`/vocabulary/${entry.id}`),
+      message: `Deleted ${countWords(selected.length)}`,
+      onCommitted: () => {
+        needsRefresh.current = true;
+      },
+    });
+  };
+
+  const exportSelected = async () => {
+    const selected = await getSelectedEntries();
+    if (selected) exportToPDF(selected);
+  };
+
   const formatDate = (dateString: string) => {
     return new Date(dateString).toLocaleDateString('en-US', {
       year: 'numeric',
@@ -270,8 +462,8 @@ const Vocabulary: React.FC = () => {
     });
   };
 
-  const exportToPDF = async () => {
-    if (!data?.vocabulary || data.vocabulary.length === 0) {
+  const exportToPDF = async (words: VocabularyEntry[], total = words.length) => {
+    if (words.length === 0) {
       toast.error('No vocabulary data to export');
       return;
     }
@@ -289,7 +481,7 @@ const Vocabulary: React.FC = () => {
       doc.setFontSize(14);
       doc.setTextColor(100, 100, 100);
       doc.text(`Exported on ${new Date().toLocaleDateString()}`, 20, 35);
-      doc.text(`Total words: ${data.total}`, 20, 42);
+      doc.text(`Total words: ${total}`, 20, 42);
       
       // Reset text color
       doc.setTextColor(0, 0, 0);
@@ -298,7 +490,7 @@ const Vocabulary: React.FC = () => {
       doc.setFontSize(16);
       doc.text('Summary', 20, 55);
       
-      const statusCounts = data.vocabulary.reduce((acc, word) => {
+      const statusCounts = words.reduce((acc, word) => {
         acc[word.status] = (acc[word.status] || 0) + 1;
         return acc;
       }, {} as Record<string, number>);
@@ -311,7 +503,7 @@ const Vocabulary: React.FC = () => {
       });
       
       // Prepare table data with 5 columns
-      const tableData = data.vocabulary.map((word, index) => [
+      const tableData = words.map((word, index) => [
         index + 1, // Row number
         word.word, // Word
         word.meaning || 'No meaning provided', // Meaning
@@ -383,18 +575,18 @@ const Vocabulary: React.FC = () => {
       }
       
       // Add detailed word information on new pages if needed
-      if (data.vocabulary.length > 0) {
+      if (words.length > 0) {
         doc.addPage('landscape');
         let currentPage = 1;
         const wordsPerPage = 2; // Fewer words per page in landscape
         
-        for (let i = 0; i < data.vocabulary.length; i += wordsPerPage) {
+        for (let i = 0; i < words.length; i += wordsPerPage) {
           if (i > 0) {
             doc.addPage('landscape');
             currentPage++;
           }
           
-          const pageWords = data.vocabulary.slice(i, i + wordsPerPage);
+          const pageWords = words.slice(i, i + wordsPerPage);
           let pageY = 20;
           
           doc.setFontSize(18);
@@ -576,7 +768,7 @@ const Vocabulary: React.FC = () => {
             Refresh
           </button>
           <button
-            onClick={exportToPDF}
+            onClick={() => exportToPDF(data?.vocabulary || [], data?.total)}
             disabled={isExporting}
             className="btn-secondary disabled:opacity-50 disabled:cursor-not-allowed"
           >
@@ -643,12 +835,9 @@ const Vocabulary: React.FC = () => {
                     className="input"
                   >
                     <option value="">All Tags</option>
-                    <option value="learning">Learning</option>
-                    <option value="reviewing">Reviewing</option>
-                    <option value="mastered">Mastered</option>
-                    <option value="favorite">Favorite</option>
-                    <option value="difficult">Difficult</option>
-                    <option value="important">Important</option>
+                    {tags.map(tag => (
+                      <option key={tag.name} value={tag.name}>{tag.name}</option>
+                    ))}
                   </select>
                 </div>
 
@@ -703,17 +892,154 @@ const Vocabulary: React.FC = () => {
             <h3 className="text-lg font-medium text-gray-900">
               Words ({data?.total || 0})
             </h3>
-            <div className="text-sm text-gray-500">
-              Click on a row to expand and see full details
-            </div>
+            {selectedIds.size > 0 ? (
+              <div className="flex items-center space-x-3">
+                <span className="text-sm text-gray-700">{selectedIds.size} selected</span>
+                <button onClick={() => setSelectedIds(new Set())} className="btn-secondary text-sm">
+                  <X className="mr-2 h-4 w-4" />
+                  Clear
+                </button>
+                <button onClick={quizSelectedWords} className="btn-primary text-sm">
+                  <Target className="mr-2 h-4 w-4" />
+                  Quiz these words
+                </button>
+              </div>
+            ) : (
+              <div className="text-sm text-gray-500">
+                Click on a row to expand and see full details
+              </div>
+            )}
           </div>
         </div>
+
+        {/* Bulk Actions */}
+        {selectedIds.size > 0 && (
+          <div className="px-6 py-3 bg-gray-50 border-b border-gray-200 space-y-3">
+            {isPageSelected && data && data.total > pageIds.length && (
+              <p className="text-sm text-gray-700">
+                {isAllMatchingSelected ? (
+                  <>All {data.total} matching words are selected.</>
+                ) : (
+                  <>
+                    All {pageIds.length} words on this page are selected.{' '}
+                    <button
+                      onClick={selectAllMatching}
+                      disabled={isSelectingAll}
+                      className="font-medium text-primary-600 hover:text-primary-800 disabled:opacity-50"
+                    >
+                      {isSelectingAll ? 'Selecting...' : `Select all ${data.total} matching words`}
+                    </button>
+                  </>
+                )}
+              </p>
+            )}
+
+            <div className="flex flex-wrap items-center gap-2">
+              <select
+                value=""
+                onChange={(e) => e.target.value && bulkSetStatus(e.target.value)}
+                disabled={!!bulkProgress}
+                className="text-sm border border-gray-300 rounded px-2 py-1"
+                aria-label="Set status of selected words"
+              >
+                <option value="">Set status...</option>
+                <option value="learning">Learning</option>
+                <option value="reviewing">Reviewing</option>
+                <option value="mastered">Mastered</option>
+              </select>
+              <select
+                value=""
+                onChange={(e) => e.target.value && bulkSetDifficulty(Number(e.target.value))}
+                disabled={!!bulkProgress}
+                className="text-sm border border-gray-300 rounded px-2 py-1"
+                aria-label="Set difficulty of selected words"
+              >
+                <option value="">Set difficulty...</option>
+                {[1, 2, 3, 4, 5].map(level => (
+                  <option key={level} value={level}>Level {level}</option>
+                ))}
+              </select>
+              <div className="flex items-center">
+                <input
+                  type="text"
+                  list="bulk-tag-options"
+                  value={bulkTag}
+                  onChange={(e) => setBulkTag(e.target.value)}
+                  disabled={!!bulkProgress}
+                  placeholder="Tag..."
+                  className="w-32 text-sm border border-gray-300 rounded-l px-2 py-1"
+                  aria-label="Tag for selected words"
+                />
+                <datalist id="bulk-tag-options">
+                  {tags.map(tag => (
+                    <option key={tag.name} value={tag.name} />
+                  ))}
+                </datalist>
+                <button
+                  onClick={() => bulkChangeTag(bulkTag, true)}
+                  disabled={!!bulkProgress || !bulkTag.trim()}
+                  className="text-sm border border-l-0 border-gray-300 bg-white px-2 py-1 hover:bg-gray-100 disabled:opacity-50"
+                  title="Add tag to selected words"
+                >
+                  <Plus className="h-4 w-4" />
+                </button>
+                <button
+                  onClick={() => bulkChangeTag(bulkTag, false)}
+                  disabled={!!bulkProgress || !bulkTag.trim()}
+                  className="text-sm border border-l-0 border-gray-300 bg-white rounded-r px-2 py-1 hover:bg-gray-100 disabled:opacity-50"
+                  title="Remove tag from selected words"
+                >
+                  <Minus className="h-4 w-4" />
+                </button>
+              </div>
+              <button
+                onClick={exportSelected}
+                disabled={!!bulkProgress || isExporting}
+                className="btn-secondary text-sm disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                <Download className="mr-2 h-4 w-4" />
+                Export
+              </button>
+              <button
+                onClick={bulkDelete}
+                disabled={!!bulkProgress}
+                className="btn-secondary text-sm text-red-600 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                <Trash2 className="mr-2 h-4 w-4" />
+                Delete
+              </button>
+            </div>
+
+            {bulkProgress && (
+              <div aria-live="polite">
+                <div className="flex justify-between text-xs text-gray-600 mb-1">
+                  <span>{bulkProgress.label}...</span>
+                  <span>{bulkProgress.done} of {bulkProgress.total}</span>
+                </div>
+                <div className="w-full bg-gray-200 rounded-full h-2">
+                  <div
+                    className="bg-primary-600 h-2 rounded-full transition-all duration-300"
+                    style={{ width: `${(bulkProgress.done / bulkProgress.total) * 100}%` }}
+                  />
+                </div>
+              </div>
+            )}
+          </div>
+        )}
         <div className="card-body p-0">
           {data?.vocabulary && data.vocabulary.length > 0 ? (
             <div className="overflow-x-auto">
               <table className="min-w-full divide-y divide-gray-200">
                 <thead className="bg-gray-50">
                   <tr>
+                    <th className="pl-6 py-3 w-4">
+                      <input
+                        type="checkbox"
+                        checked={isPageSelected}
+                        onChange={togglePageSelection}
+                        aria-label="Select all words on this page"
+                      />
+                    </th>
                     <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                       Word
                     </th>
@@ -745,6 +1071,14 @@ const Vocabulary: React.FC = () => {
                         className="hover:bg-gray-50 cursor-pointer transition-colors"
                         onClick={() => toggleRowExpansion(word.id)}
                       >
+                        <td className="pl-6 py-4" onClick={(e) => e.stopPropagation()}>
+                          <input
+                            type="checkbox"
+                            checked={selectedIds.has(word.id)}
+                            onChange={() => toggleRowSelection(word.id)}
+                            aria-label={`Select ${word.word}`}
+                          />
+                        </td>
                         <td className="px-6 py-4 whitespace-nowrap">
                           <div className="flex items-center">
                             <button className="mr-2">
@@ -755,10 +1089,12 @@ const Vocabulary: React.FC = () => {
                               )}
                             </button>
                             <div>
-                              <div className="text-base font-bold text-gray-900">{word.word}</div>
+                              <div className="flex items-center">
+                                <div className="text-base font-bold text-gray-900">{word.word}</div>
+                                <PronounceButton text={word.word} className="ml-1" />
+                              </div>
                               {word.pronunciation && (
-                                <div className="text-xs text-gray-500 flex items-center">
-                                  <Volume2 className="h-3 w-3 mr-1" />
+                                <div className="text-xs text-gray-500">
                                   {word.pronunciation}
                                 </div>
                               )}
@@ -792,21 +1128,7 @@ const Vocabulary: React.FC = () => {
                         <td className="px-6 py-4 whitespace-nowrap">
                           {editingTags === word.id ? (
                             <div className="space-y-2" onClick={(e) => e.stopPropagation()}>
-                              <div className="flex flex-wrap gap-1">
-                                {['learning', 'reviewing', 'mastered', 'favorite', 'difficult', 'important'].map((tag) => (
-                                  <label key={tag} className="flex items-center">
-                                    <input
-                                      type="checkbox"
-                                      checked={tempTags.includes(tag)}
-                                      onChange={() => toggleTag(tag)}
-                                      className="mr-1"
-                                    />
-                                    <span className={`text-xs px-2 py-1 rounded-full ${getTagColor(tag)}`}>
-                                      {tag}
-                                    </span>
-                                  </label>
-                                ))}
-                              </div>
+                              <TagPicker value={tempTags} onChange={setTempTags} className="w-64 whitespace-normal" />
                               <div className="flex space-x-2">
                                 <button
                                   onClick={() => saveTags(word.id)}
@@ -909,7 +1231,7 @@ const Vocabulary: React.FC = () => {
                             <button
                               onClick={(e) => {
                                 e.stopPropagation();
-                                handleDelete(word.id);
+                                handleDelete(word);
                               }}
                               className="text-red-600 hover:text-red-900"
                               title="Delete"
@@ -923,7 +1245,7 @@ const Vocabulary: React.FC = () => {
                       {/* Expanded Row */}
                       {expandedRows.has(word.id) && (
                         <tr>
-                          <td colSpan={7} className="px-6 py-4 bg-gray-50">
+                          <td colSpan={8} className="px-6 py-4 bg-gray-50">
                             <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
                               {/* Example */}
                               {word.example && (
@@ -1012,6 +1334,9 @@ const Vocabulary: React.FC = () => {
                                   {word.next_review && (
                                     <div>Next: {formatDate(word.next_review)}</div>
                                   )}
+                                  {word.interval_days !== undefined && (
+                                    <div>Interval: {word.interval_days} day{word.interval_days === 1 ? '' : 's'}</div>
+                                  )}
                                 </div>
                               </div>
 
@@ -0,0 +1,29 @@
+export interface SpeechPreferences {
+  // SpeechSynthesisVoice.voiceURI of the chosen voice
+  voiceURI?: string;
+  rate: number;
+  // BCP 47 language tag, e.g. en-US or en-GB
+  accent: string;
+}
+
+export type DailyGoalType = 'reviews' | 'words';
+
+export interface DailyGoal {
+  // Words reviewed in quizzes, or new words added
+  type: DailyGoalType;
+  target: number;
+}
+
+export type TagColor = 'gray' | 'red' | 'orange' | 'yellow' | 'green' | 'teal' | 'blue' | 'indigo' | 'purple' | 'pink';
+
+export interface TagDefinition {
+  name: string;
+  color: TagColor;
+}
+
+export interface UserPreferences {
+  speech?: Partial<SpeechPreferences>;
+  dailyGoal?: DailyGoal;
+  // Tags with their colors; tags used on words but missing here show in gray
+  tags?: TagDefinition[];
+}
@@ -0,0 +1,49 @@
+import { ScheduleUpdate } from '../utils/scheduler';
+import { AnswerVerdict } from '../utils/fuzzyMatch';
+
+export type QuestionType = 'meaning' | 'synonyms' | 'antonyms' | 'fill-blank' | 'typing' | 'spelling' | 'listening' | 'match';
+
+// 'quiz' shares one time budget across all questions, 'question' gives each
+// question its own countdown, 'sudden-death' ends on the first mistake
+export type TimingMode = 'quiz' | 'question' | 'untimed' | 'sudden-death';
+
+export interface QuizQuestion {
+  wordId: string;
+  word: string;
+  question: string;
+  options: string[];
+  correctAnswer: string;
+  type: QuestionType;
+  // Review state of the word, when the server includes it
+  status?: string;
+  difficulty?: number;
+  review_count?: number;
+  ease_factor?: number;
+  interval_days?: number;
+  // Matching rounds: one sub-question per word, answered with its meaning.
+  // The round's own options are the shuffled meanings.
+  pairs?: QuizQuestion[];
+}
+
+export interface QuizResponse {
+  questions: QuizQuestion[];
+  totalQuestions: number;
+  quizType: string;
+  // Set when the questions were generated on the client
+  seed?: number;
+}
+
+export interface QuizResult {
+  wordId: string;
+  selectedAnswer: string;
+  correct: boolean;
+  correctAnswer: string;
+  word: string;
+  question: string;
+  responseTimeMs?: number;
+  // Total time the question was on screen, across every visit
+  timeSpentMs?: number;
+  // Set for free-text answers, 'almost' marks an accepted near miss
+  verdict?: AnswerVerdict;
+  schedule?: ScheduleUpdate;
+}
@@ -0,0 +1,42 @@
+export type WordStatus = 'learning' | 'reviewing' | 'mastered';
+
+export type WordSource = 'manual' | 'text' | 'pdf' | 'image' | 'voice';
+
+export interface VocabularyEntry {
+  id: string;
+  word: string;
+  meaning: string;
+  example: string;
+  synonyms: string[];
+  antonyms: string[];
+  tags: string[];
+  status: string;
+  source: string;
+  source_text?: string;
+  notes?: string;
+  pronunciation?: string;
+  part_of_speech?: string;
+  difficulty?: number;
+  review_count?: number;
+  last_reviewed?: string;
+  next_review?: string;
+  // Spaced repetition state, see utils/scheduler
+  ease_factor?: number;
+  interval_days?: number;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface VocabularyResponse {
+  vocabulary: VocabularyEntry[];
+  totalPages: number;
+  currentPage: number;
+  total: number;
+}
+
+// Counts from /vocabulary/stats/overview, grouped by status and by tag
+export interface VocabularyStats {
+  totalWords: number;
+  tagStats: Array<{ _id: string; count: number }>;
+  statusStats: Array<{ _id: string; count: number }>;
+}
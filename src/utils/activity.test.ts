@@ -0,0 +1,69 @@
+import { DailyActivity, FREEZE_WINDOW_DAYS, addDays, getStreakSummary, toDayKey } from './activity';
+
+const TODAY = new Date(2024, 5, 30, 12);
+
+// Activity on the given days, counted back from TODAY (0 is today)
+const activeOn = (...daysAgo: number[]) =>
+  daysAgo.reduce((activity, ago) => ({
+    ...activity,
+    [toDayKey(addDays(TODAY, -ago))]: { reviews: 5, quizzes: 1, wordsAdded: 0 },
+  }), {} as { [day: string]: DailyActivity });
+
+const range = (from: number, to: number) =>
+  Array.from({ length: to - from + 1 }, (_, index) => from + index);
+
+describe('getStreakSummary', () => {
+  it('counts consecutive active days up to today', () => {
+    const streak = getStreakSummary(activeOn(0, 1, 2, 3), TODAY);
+
+    expect(streak.current).toBe(4);
+    expect(streak.longest).toBe(4);
+    expect(streak.activeToday).toBe(true);
+    expect(streak.frozenDays).toEqual([]);
+  });
+
+  it('keeps the streak when today has no activity yet', () => {
+    const streak = getStreakSummary(activeOn(1, 2, 3), TODAY);
+
+    expect(streak.current).toBe(3);
+    expect(streak.atRisk).toBe(false);
+  });
+
+  it('bridges a single missed day with a freeze', () => {
+    const streak = getStreakSummary(activeOn(0, 1, 3, 4), TODAY);
+
+    expect(streak.current).toBe(4);
+    expect(streak.frozenDays).toEqual([toDayKey(addDays(TODAY, -2))]);
+  });
+
+  it('holds a missed yesterday until today is over', () => {
+    const streak = getStreakSummary(activeOn(2, 3), TODAY);
+
+    expect(streak.current).toBe(2);
+    expect(streak.atRisk).toBe(true);
+    expect(streak.frozenDays).toEqual([toDayKey(addDays(TODAY, -1))]);
+  });
+
+  it('ends the streak after two missed days in a row', () => {
+    const streak = getStreakSummary(activeOn(0, 3, 4, 5), TODAY);
+
+    expect(streak.current).toBe(1);
+    expect(streak.longest).toBe(3);
+  });
+
+  it('allows only one freeze per window', () => {
+    // Active every other day for three weeks
+    const streak = getStreakSummary(activeOn(...range(0, 20).filter(day => day % 2 === 0)), TODAY);
+
+    expect(streak.current).toBe(1);
+    expect(streak.longest).toBe(2);
+  });
+
+  it('allows another freeze once the window has passed', () => {
+    const missed = [3, 3 + FREEZE_WINDOW_DAYS];
+    const streak = getStreakSummary(activeOn(...range(0, 14).filter(day => !missed.includes(day))), TODAY);
+
+    expect(streak.current).toBe(13);
+    expect(streak.frozenDays).toHaveLength(2);
+  });
+});
@@ -0,0 +1,124 @@
+// Daily learning activity and streaks. Reviews and quizzes come from the
+// local quiz history, new words from the vocabulary itself.
+import { VocabularyEntry } from '../types/vocabulary';
+import { DailyGoal } from '../types/preferences';
+import { QuizHistoryEntry } from './quizHistory';
+
+export interface DailyActivity {
+  // Words answered in quizzes and flashcard sessions
+  reviews: number;
+  quizzes: number;
+  wordsAdded: number;
+}
+
+export interface StreakSummary {
+  current: number;
+  longest: number;
+  activeToday: boolean;
+  // Missed days bridged by a freeze in the current streak
+  frozenDays: string[];
+  // Yesterday was missed: the streak ends unless there is activity today
+  atRisk: boolean;
+}
+
+// Local calendar day as YYYY-MM-DD
+export const toDayKey = (date: Date | string | number) => {
+  const day = new Date(date);
+  const month = String(day.getMonth() + 1).padStart(2, '0');
+  const dayOfMonth = String(day.getDate()).padStart(2, '0');
+  return `${day.getFullYear()}-${month}-${dayOfMonth}`;
+};
+
+// Same time of day, `days` calendar days later (negative for earlier)
+export const addDays = (date: Date, days: number) => {
+  const next = new Date(date);
+  next.setDate(next.getDate() + days);
+  return next;
+};
+
+const emptyActivity = (): DailyActivity => ({ reviews: 0, quizzes: 0, wordsAdded: 0 });
+
+export const getDailyActivity = (history: QuizHistoryEntry[], entries: VocabularyEntry[] = []) => {
+  const activity: { [day: string]: DailyActivity } = {};
+  const getDay = (key: string) => {
+    if (!activity[key]) activity[key] = emptyActivity();
+    return activity[key];
+  };
+
+  history.forEach(session => {
+    const day = getDay(toDayKey(session.completedAt));
+    day.quizzes += 1;
+    day.reviews += session.results.length;
+  });
+  entries.forEach(entry => {
+    getDay(toDayKey(entry.created_at)).wordsAdded += 1;
+  });
+
+  return activity;
+};
+
+export const isActiveDay = (activity?: DailyActivity) =>
+  !!activity && (activity.reviews > 0 || activity.quizzes > 0 || activity.wordsAdded > 0);
+
+// At most one missed day in any FREEZE_WINDOW_DAYS can be covered by a freeze
+export const FREEZE_WINDOW_DAYS = 7;
+
+const parseDayKey = (key: string) => {
+  const [year, month, dayOfMonth] = key.split('-').map(Number);
+  return new Date(year, month - 1, dayOfMonth);
+};
+
+export const getStreakSummary = (
+  activity: { [day: string]: DailyActivity },
+  today: Date = new Date()
+): StreakSummary => {
+  const activeDays = new Set(Object.keys(activity).filter(key => isActiveDay(activity[key])));
+  const todayKey = toDayKey(today);
+  const activeToday = activeDays.has(todayKey);
+  const yesterdayKey = toDayKey(addDays(today, -1));
+
+  // Walk forward from the first active day. A missed day between two active
+  // days is bridged by a freeze unless one was used in the window before it;
+  // otherwise the streak ends. Today still counts as long as it isn't over,
+  // so a quiet morning neither breaks the streak nor uses up yesterday's freeze.
+  let current = 0;
+  let longest = 0;
+  let frozenDays: string[] = [];
+  let lastFreeze: Date | null = null;
+  const firstKey = Array.from(activeDays).sort()[0];
+
+  for (let day = firstKey ? parseDayKey(firstKey) : today; toDayKey(day) < todayKey; day = addDays(day, 1)) {
+    const key = toDayKey(day);
+    const nextKey = toDayKey(addDays(day, 1));
+    const freezeAvailable = !lastFreeze || addDays(lastFreeze, FREEZE_WINDOW_DAYS) <= day;
+
+    if (activeDays.has(key)) {
+      current += 1;
+      longest = Math.max(longest, current);
+    } else if (current > 0 && freezeAvailable && (activeDays.has(nextKey) || nextKey === todayKey)) {
+      frozenDays.push(key);
+      lastFreeze = day;
+    } else {
+      current = 0;
+      frozenDays = [];
+    }
+  }
+  if (activeToday) {
+    current += 1;
+    longest = Math.max(longest, current);
+  }
+
+  return {
+    current,
+    longest,
+    activeToday,
+    frozenDays,
+    // Yesterday was bridged only in the hope of activity today
+    atRisk: !activeToday && current > 0 && frozenDays.includes(yesterdayKey),
+  };
+};
+
+export const DEFAULT_DAILY_GOAL: DailyGoal = { type: 'reviews', target: 20 };
+
+export const getGoalProgress = (activity: DailyActivity | undefined, goal: DailyGoal) =>
+  goal.type === 'words' ? activity?.wordsAdded || 0 : activity?.reviews || 0;
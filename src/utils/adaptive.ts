@@ -0,0 +1,144 @@
+// Adaptive word selection: weight words by how often they were missed, how
+// hard they are, how long since they were reviewed and how often they have
+// been reviewed, then steer the session towards the user's current level.
+import { VocabularyEntry } from '../types/vocabulary';
+import { QuizQuestion, QuizResult } from '../types/quiz';
+import { QuizHistoryEntry } from './quizHistory';
+
+export const MIN_LEVEL = 1;
+export const MAX_LEVEL = 5;
+export const STARTING_LEVEL = 3;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const STALE_AFTER_DAYS = 30;
+
+export interface WordStats {
+  attempts: number;
+  misses: number;
+}
+
+export interface AdaptivePick {
+  entry: VocabularyEntry;
+  weight: number;
+  // How hard the word is for this user, 1-5
+  challenge: number;
+  reasons: string[];
+}
+
+// Attempts and misses per word across past sessions
+export const getWordStats = (history: QuizHistoryEntry[]) => {
+  const stats: { [wordId: string]: WordStats } = {};
+  history.forEach(session => {
+    session.results.forEach((result: QuizResult) => {
+      const current = stats[result.wordId] || { attempts: 0, misses: 0 };
+      stats[result.wordId] = {
+        attempts: current.attempts + 1,
+        misses: current.misses + (result.correct ? 0 : 1),
+      };
+    });
+  });
+  return stats;
+};
+
+const clampLevel = (level: number) => Math.min(MAX_LEVEL, Math.max(MIN_LEVEL, level));
+
+// Smoothed so a single attempt doesn't read as 0% or 100%
+const getErrorRate = (stats?: WordStats) =>
+  ((stats?.misses || 0) + 1) / ((stats?.attempts || 0) + 2);
+
+export const scoreWord = (entry: VocabularyEntry, stats: WordStats | undefined, now: Date = new Date()) => {
+  const difficulty = entry.difficulty || STARTING_LEVEL;
+  const reviewCount = entry.review_count || 0;
+  const daysSinceReview = entry.last_reviewed
+    ? Math.max(0, (now.getTime() - new Date(entry.last_reviewed).getTime()) / DAY_MS)
+    : null;
+
+  const errorRate = getErrorRate(stats);
+  const difficultyScore = (difficulty - 1) / (MAX_LEVEL - 1);
+  const staleness = daysSinceReview === null ? 1 : Math.min(daysSinceReview / STALE_AFTER_DAYS, 1);
+  const novelty = 1 / (1 + reviewCount);
+
+  const weight = 0.4 * errorRate + 0.25 * difficultyScore + 0.2 * staleness + 0.15 * novelty;
+  const challenge = clampLevel(difficulty + (errorRate - 0.5) * 2);
+
+  const reasons: string[] = [];
+  if (stats && stats.misses > 0) {
+    reasons.push(`missed ${stats.misses} of ${stats.attempts} time${stats.attempts === 1 ? '' : 's'}`);
+  }
+  if (difficulty >= 4) {
+    reasons.push(`difficulty ${difficulty}/5`);
+  }
+  if (daysSinceReview === null) {
+    reasons.push('never reviewed');
+  } else if (daysSinceReview >= 7) {
+    reasons.push(`not reviewed in ${Math.floor(daysSinceReview)} days`);
+  }
+  if (reviewCount > 0 && reviewCount <= 2) {
+    reasons.push(`only reviewed ${reviewCount === 1 ? 'once' : 'twice'}`);
+  }
+  if (reasons.length === 0) {
+    reasons.push('due for a refresher');
+  }
+
+  return { weight, challenge, reasons };
+};
+
+// Weighted sampling without replacement: heavier words are more likely to be
+// picked, but every word has a chance. Picks come back heaviest first.
+export const pickAdaptiveWords = (
+  entries: VocabularyEntry[],
+  count: number,
+  stats: { [wordId: string]: WordStats },
+  random: () => number = Math.random,
+  now: Date = new Date()
+): AdaptivePick[] =>
+  entries
+    .map(entry => {
+      const pick: AdaptivePick = { entry, ...scoreWord(entry, stats[entry.id], now) };
+      return { pick, key: Math.pow(random(), 1 / Math.max(pick.weight, 0.01)) };
+    })
+    .sort((a, b) => b.key - a.key)
+    .slice(0, count)
+    .map(({ pick }) => pick)
+    .sort((a, b) => b.weight - a.weight);
+
+// Step up gently after a right answer, back off faster after a wrong one
+export const adjustLevel = (level: number, correct: boolean) =>
+  clampLevel(level + (correct ? 0.5 : -1));
+
+// Index of the candidate whose challenge is closest to the target level
+export const findClosestChallenge = (challenges: number[], level: number) =>
+  challenges.reduce(
+    (best, challenge, index) =>
+      Math.abs(challenge - level) < Math.abs(challenges[best] - level) ? index : best,
+    0
+  );
+
+// Move the unasked question closest to the target level to nextIndex,
+// swapping with the reserve pool. Practice retries of already asked words
+// stay queued where they are.
+export const arrangeAdaptiveQuestions = (
+  questions: QuizQuestion[],
+  pool: QuizQuestion[],
+  nextIndex: number,
+  level: number,
+  challenges: { [wordId: string]: number }
+) => {
+  const asked = questions.slice(0, nextIndex);
+  const upcoming = questions.slice(nextIndex);
+  const isRetry = (question: QuizQuestion) => asked.some(other => other.wordId === question.wordId);
+  const fresh = upcoming.filter(question => !isRetry(question));
+  if (fresh.length === 0) return { questions, pool };
+
+  const candidates = [...fresh, ...pool];
+  const best = findClosestChallenge(
+    candidates.map(question => challenges[question.wordId] ?? STARTING_LEVEL),
+    level
+  );
+  const rest = candidates.filter((_, index) => index !== best);
+
+  return {
+    questions: [...asked, candidates[best], ...rest.slice(0, fresh.length - 1), ...upcoming.filter(isRetry)],
+    pool: rest.slice(fresh.length - 1),
+  };
+};
@@ -0,0 +1,38 @@
+// Bulk changes are sent as one request per word, a few at a time, so a
+// failing word doesn't stop the rest and progress can be shown as they finish.
+
+export const BULK_CONCURRENCY = 4;
+
+export interface BulkResult<T> {
+  succeeded: T[];
+  failed: T[];
+}
+
+export const runBulk = async <T>(
+  items: T[],
+  task: (item: T) => Promise<unknown>,
+  onProgress?: (done: number, total: number) => void,
+  concurrency = BULK_CONCURRENCY
+): Promise<BulkResult<T>> => {
+  const result: BulkResult<T> = { succeeded: [], failed: [] };
+  let next = 0;
+  let done = 0;
+
+  const worker = async () => {
+    while (next < items.length) {
+      const item = items[next++];
+      try {
+        await task(item);
+        result.succeeded.push(item);
+      } catch (error) {
+        console.warn('Bulk change failed for an item:', error);
+        result.failed.push(item);
+      }
+      done += 1;
+      onProgress?.(done, items.length);
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(concurrency, items.length) }, worker));
+  return result;
+};
@@ -0,0 +1,97 @@
+// Tolerant grading for free-text answers. Answers are compared without case,
+// diacritics or extra whitespace, and small typos are accepted as "almost".
+
+export type AnswerVerdict = 'correct' | 'almost' | 'incorrect';
+
+export interface AnswerGrade {
+  verdict: AnswerVerdict;
+  distance: number;
+}
+
+export type DiffOp =
+  | { type: 'equal'; char: string }
+  | { type: 'missing'; char: string }
+  | { type: 'extra'; char: string }
+  | { type: 'wrong'; char: string; expected: string };
+
+export const normalizeAnswer = (value: string): string =>
+  value
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/\s+/g, ' ')
+    .trim();
+
+const buildDistanceMatrix = (a: string, b: string): number[][] => {
+  const matrix: number[][] = Array.from({ length: a.length + 1 }, (_, i) =>
+    Array.from({ length: b.length + 1 }, (_, j) => (i === 0 ? j : j === 0 ? i : 0))
+  );
+
+  for (let i = 1; i <= a.length; i++) {
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      matrix[i][j] = Math.min(
+        matrix[i - 1][j] + 1,
+        matrix[i][j - 1] + 1,
+        matrix[i - 1][j - 1] + cost
+      );
+    }
+  }
+
+  return matrix;
+};
+
+export const levenshtein = (a: string, b: string): number =>
+  buildDistanceMatrix(a, b)[a.length][b.length];
+
+// Number of typos tolerated for a word of the given length
+export const getTypoThreshold = (length: number): number => {
+  if (length <= 4) return 0;
+  if (length <= 8) return 1;
+  return 2;
+};
+
+export const gradeTypedAnswer = (answer: string, expected: string): AnswerGrade => {
+  const normalizedAnswer = normalizeAnswer(answer);
+  const normalizedExpected = normalizeAnswer(expected);
+
+  if (!normalizedAnswer) {
+    return { verdict: 'incorrect', distance: normalizedExpected.length };
+  }
+
+  const distance = levenshtein(normalizedAnswer, normalizedExpected);
+  if (distance === 0) return { verdict: 'correct', distance };
+  if (distance <= getTypoThreshold(normalizedExpected.length)) return { verdict: 'almost', distance };
+  return { verdict: 'incorrect', distance };
+};
+
+// Character-level diff of the answer against the expected value, used to
+// highlight typos in the results
+export const diffAnswer = (answer: string, expected: string): DiffOp[] => {
+  const a = normalizeAnswer(answer);
+  const b = normalizeAnswer(expected);
+  const matrix = buildDistanceMatrix(a, b);
+  const ops: DiffOp[] = [];
+
+  let i = a.length;
+  let j = b.length;
+  while (i > 0 || j > 0) {
+    if (i > 0 && j > 0 && a[i - 1] === b[j - 1] && matrix[i][j] === matrix[i - 1][j - 1]) {
+      ops.push({ type: 'equal', char: b[j - 1] });
+      i--;
+      j--;
+    } else if (i > 0 && j > 0 && matrix[i][j] === matrix[i - 1][j - 1] + 1) {
+      ops.push({ type: 'wrong', char: a[i - 1], expected: b[j - 1] });
+      i--;
+      j--;
+    } else if (j > 0 && matrix[i][j] === matrix[i][j - 1] + 1) {
+      ops.push({ type: 'missing', char: b[j - 1] });
+      j--;
+    } else {
+      ops.push({ type: 'extra', char: a[i - 1] });
+      i--;
+    }
+  }
+
+  return ops.reverse();
+};
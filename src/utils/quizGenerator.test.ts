@@ -0,0 +1,115 @@
+import { VocabularyEntry } from '../types/vocabulary';
+import { blankOutWord, buildChoiceQuestion, buildMatchRounds, generateQuiz } from './quizGenerator';
+
+const makeEntry = (id: string, word: string, meaning: string, example = ''): VocabularyEntry => ({
+  id,
+  word,
+  meaning,
+  example,
+  synonyms: [],
+  antonyms: [],
+  tags: [],
+  status: 'learning',
+  source: 'manual',
+  created_at: '2024-01-01T00:00:00.000Z',
+  updated_at: '2024-01-01T00:00:00.000Z',
+});
+
+const ENTRIES = [
+  makeEntry('1', 'run', 'to move quickly on foot', 'She was running late.'),
+  makeEntry('2', 'jump', 'to push off the ground', 'He jumped over the fence.'),
+  makeEntry('3', 'swim', 'to move through water', 'They swim every morning.'),
+  makeEntry('4', 'climb', 'to go up using hands and feet', 'We climbed the hill.'),
+  makeEntry('5', 'walk', 'to move at a regular pace', 'I walk to work.'),
+];
+
+describe('generateQuiz', () => {
+  it('builds the same quiz from the same seed', () => {
+    const first = generateQuiz(ENTRIES, 'mixed', 5, 42);
+    const second = generateQuiz(ENTRIES, 'mixed', 5, 42);
+
+    expect(second).toEqual(first);
+    expect(first.questions).toHaveLength(5);
+  });
+
+  it('takes distractors from other entries and never repeats the answer', () => {
+    const { questions } = generateQuiz(ENTRIES, 'meaning', 5, 7);
+    const meanings = ENTRIES.map(entry => entry.meaning);
+
+    questions.forEach(question => {
+      const distractors = question.options.filter(option => option !== question.correctAnswer);
+      expect(question.options).toHaveLength(4);
+      expect(distractors).toHaveLength(3);
+      distractors.forEach(option => expect(meanings).toContain(option));
+    });
+  });
+
+  it('uses the distractors that exist when there are too few entries', () => {
+    const { questions } = generateQuiz(ENTRIES.slice(0, 2), 'meaning', 2, 1);
+
+    expect(questions).toHaveLength(2);
+    questions.forEach(question => expect(question.options).toHaveLength(2));
+  });
+
+  it('skips words that have no distractors at all', () => {
+    const quiz = generateQuiz(ENTRIES.slice(0, 1), 'meaning', 1, 1);
+
+    expect(quiz.questions).toEqual([]);
+    expect(quiz.totalQuestions).toBe(0);
+  });
+});
+
+describe('blankOutWord', () => {
+  it('blanks the word and forms that start with it', () => {
+    expect(blankOutWord('Run fast, keep running.', 'run')).toBe('_____ fast, keep _____.');
+  });
+
+  it('leaves words that only contain it in the middle', () => {
+    expect(blankOutWord('The outrun was close.', 'run')).toBeNull();
+  });
+
+  it('returns null when the sentence does not use the word', () => {
+    expect(blankOutWord('They swim every morning.', 'run')).toBeNull();
+    expect(blankOutWord('', 'run')).toBeNull();
+  });
+
+  it('builds fill-blank questions only from examples that use the word', () => {
+    const question = buildChoiceQuestion(ENTRIES[0], 'fill-blank', ENTRIES, () => 0.5);
+    const unusable = buildChoiceQuestion(makeEntry('6', 'sing', 'to make music', 'No match here.'), 'fill-blank', ENTRIES);
+
+    expect(question?.question).toBe('Fill in the blank: She was _____ late.');
+    expect(question?.options).not.toContain('_____');
+    expect(unusable).toBeNull();
+  });
+});
+
+describe('buildMatchRounds', () => {
+  const words = (count: number, offset = 0) =>
+    Array.from({ length: count }, (_, index) => makeEntry(`${offset + index}`, `word${offset + index}`, `meaning ${offset + index}`));
+  const roundSizes = (rounds: ReturnType<typeof buildMatchRounds>) => rounds.map(round => round.pairs?.length);
+
+  it('keeps every round at five or six pairs', () => {
+    for (let count = 5; count <= 30; count++) {
+      const sizes = roundSizes(buildMatchRounds(words(count), () => 0.5));
+      const toppedUp = roundSizes(buildMatchRounds(words(count), () => 0.5, words(10, 100)));
+
+      [...sizes, ...toppedUp].forEach(size => {
+        expect(size).toBeGreaterThanOrEqual(5);
+        expect(size).toBeLessThanOrEqual(6);
+      });
+    }
+  });
+
+  it('tops up the last round from the extra pool', () => {
+    const rounds = buildMatchRounds(words(7), () => 0.5, words(5, 100));
+
+    expect(roundSizes(rounds)).toEqual([5, 5]);
+    expect(rounds.flatMap(round => round.pairs || []).map(pair => pair.wordId)).toEqual(
+      expect.arrayContaining(words(7).map(entry => entry.id))
+    );
+  });
+
+  it('makes one smaller round from fewer than five words', () => {
+    expect(roundSizes(buildMatchRounds(words(3)))).toEqual([3]);
+  });
+});
@@ -0,0 +1,307 @@
+// Client-side question building from the user's vocabulary entries
+import { VocabularyEntry } from '../types/vocabulary';
+import { QuestionType, QuizQuestion, QuizResponse } from '../types/quiz';
+import { createSeededRandom, shuffle } from './random';
+
+export type TypedQuestionType = Extract<QuestionType, 'typing' | 'spelling'>;
+
+// Free-text questions are graded on the client and have no options
+export const isTypedQuestion = (type: string): type is TypedQuestionType =>
+  type === 'typing' || type === 'spelling';
+
+// Question types the server can't build, generated here instead
+export type LocalQuestionType = TypedQuestionType | 'listening' | 'match';
+
+export const isLocalQuestionType = (type: string): type is LocalQuestionType =>
+  isTypedQuestion(type) || type === 'listening' || type === 'match';
+
+export const MAX_MATCH_PAIRS = 6;
+
+// Audio questions play the word instead of showing it
+export const isAudioQuestion = (type: string) => type === 'spelling' || type === 'listening';
+
+const reviewFields = (entry: VocabularyEntry) => ({
+  status: entry.status,
+  difficulty: entry.difficulty,
+  review_count: entry.review_count,
+  ease_factor: entry.ease_factor,
+  interval_days: entry.interval_days,
+});
+
+const OPTION_COUNT = 4;
+const BLANK = '_____';
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const normalize = (text: string) => text.trim().toLowerCase();
+
+// Up to `count` distinct candidates, skipping any that match an excluded value
+const pickDistractors = (
+  candidates: string[],
+  exclude: string[],
+  random: () => number,
+  count = OPTION_COUNT - 1
+): string[] => {
+  const seen = new Set(exclude.map(normalize));
+  const unique = candidates.filter(candidate => {
+    const key = normalize(candidate || '');
+    if (!key || seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+  return shuffle(unique, random).slice(0, count);
+};
+
+export const buildTypedQuestion = (entry: VocabularyEntry, type: TypedQuestionType): QuizQuestion => ({
+  wordId: entry.id,
+  word: entry.word,
+  question: type === 'typing'
+    ? entry.meaning
+    : 'Listen and spell the word you hear',
+  options: [],
+  correctAnswer: entry.word,
+  type,
+  ...reviewFields(entry),
+});
+
+// Hear the word, pick its meaning. Distractors are meanings of other entries.
+export const buildListeningQuestion = (
+  entry: VocabularyEntry,
+  distractorPool: VocabularyEntry[],
+  random: () => number = Math.random
+): QuizQuestion => {
+  const distractors = pickDistractors(
+    distractorPool.filter(other => other.id !== entry.id).map(other => other.meaning),
+    [entry.meaning],
+    random
+  );
+
+  return {
+    wordId: entry.id,
+    word: entry.word,
+    question: 'Listen to the word and choose its meaning',
+    options: shuffle([entry.meaning, ...distractors], random),
+    correctAnswer: entry.meaning,
+    type: 'listening',
+    ...reviewFields(entry),
+  };
+};
+
+// Matching rounds hold MIN_MATCH_PAIRS to MAX_MATCH_PAIRS words
+export const MIN_MATCH_PAIRS = 5;
+
+// Words with a meaning, keeping only the first of any that share one, since
+// those pairs would be ambiguous
+const uniqueMeanings = (entries: VocabularyEntry[], seenMeanings = new Set<string>()) =>
+  entries.filter(entry => {
+    const meaning = entry.meaning?.trim().toLowerCase();
+    if (!meaning || seenMeanings.has(meaning)) return false;
+    seenMeanings.add(meaning);
+    return true;
+  });
+
+// Split words into matching rounds of five or six pairs, so ten words make two
+// rounds of five. When the words don't divide that way, the last round is
+// topped up from `extraPool`, and any words that still don't fit are left out.
+// Fewer than five words make a single smaller round.
+export const buildMatchRounds = (
+  entries: VocabularyEntry[],
+  random: () => number = Math.random,
+  extraPool: VocabularyEntry[] = []
+): QuizQuestion[] => {
+  const seenMeanings = new Set<string>();
+  let words = uniqueMeanings(entries, seenMeanings);
+
+  let roundCount = Math.max(1, Math.ceil(words.length / MAX_MATCH_PAIRS));
+  if (words.length >= MIN_MATCH_PAIRS && words.length < roundCount * MIN_MATCH_PAIRS) {
+    const ids = new Set(words.map(entry => entry.id));
+    const extras = uniqueMeanings(shuffle(extraPool.filter(entry => !ids.has(entry.id)), random), seenMeanings);
+    const missing = roundCount * MIN_MATCH_PAIRS - words.length;
+    if (extras.length >= missing) {
+      words = [...words, ...extras.slice(0, missing)];
+    } else {
+      roundCount = Math.floor(words.length / MIN_MATCH_PAIRS);
+      words = words.slice(0, roundCount * MAX_MATCH_PAIRS);
+    }
+  }
+
+  const baseSize = Math.floor(words.length / roundCount);
+  const remainder = words.length % roundCount;
+
+  const rounds: QuizQuestion[] = [];
+  let start = 0;
+  for (let round = 0; round < roundCount; round++) {
+    const size = baseSize + (round < remainder ? 1 : 0);
+    const pairs: QuizQuestion[] = words.slice(start, start + size).map(entry => ({
+      wordId: entry.id,
+      word: entry.word,
+      question: `Match "${entry.word}" with its meaning`,
+      options: [],
+      correctAnswer: entry.meaning,
+      type: 'match',
+      ...reviewFields(entry),
+    }));
+    start += size;
+
+    rounds.push({
+      wordId: `match-${round + 1}`,
+      word: '',
+      question: 'Match each word with its meaning',
+      options: shuffle(pairs.map(pair => pair.correctAnswer), random),
+      correctAnswer: '',
+      type: 'match',
+      pairs,
+    });
+  }
+
+  return rounds;
+};
+
+export const buildLocalQuestions = (
+  entries: VocabularyEntry[],
+  type: LocalQuestionType,
+  distractorPool: VocabularyEntry[] = entries,
+  random: () => number = Math.random
+): QuizQuestion[] => {
+  // Matching tops its rounds up from the pool
+  if (type === 'match') return buildMatchRounds(entries, random, distractorPool);
+
+  return entries.map(entry =>
+    type === 'listening'
+      ? buildListeningQuestion(entry, distractorPool, random)
+      : buildTypedQuestion(entry, type)
+  );
+};
+
+// Multiple-choice types the server normally builds
+export type ChoiceQuestionType = Extract<QuestionType, 'meaning' | 'synonyms' | 'antonyms' | 'fill-blank'>;
+
+export const CHOICE_QUESTION_TYPES: ChoiceQuestionType[] = ['meaning', 'synonyms', 'antonyms', 'fill-blank'];
+
+// Replace the word (and inflections that start with it, like "running" for
+// "run") in a sentence; null when the sentence doesn't use the word
+export const blankOutWord = (sentence: string, word: string): string | null => {
+  if (!sentence || !word.trim()) return null;
+  const pattern = new RegExp(`\\b${escapeRegExp(word.trim())}\\w*`, 'gi');
+  const blanked = sentence.replace(pattern, BLANK);
+  return blanked === sentence ? null : blanked;
+};
+
+// Build one multiple-choice question, or null if the entry can't support the
+// type (no synonyms, no example using the word, not enough distractors)
+export const buildChoiceQuestion = (
+  entry: VocabularyEntry,
+  type: ChoiceQuestionType,
+  distractorPool: VocabularyEntry[],
+  random: () => number = Math.random
+): QuizQuestion | null => {
+  const others = distractorPool.filter(other => other.id !== entry.id);
+  const synonyms = entry.synonyms || [];
+  const antonyms = entry.antonyms || [];
+  let question: string;
+  let correctAnswer: string;
+  let distractors: string[];
+
+  switch (type) {
+    case 'meaning':
+      question = `What is the meaning of "${entry.word}"?`;
+      correctAnswer = entry.meaning;
+      distractors = pickDistractors(others.map(other => other.meaning), [entry.meaning], random);
+      break;
+    case 'synonyms':
+      if (synonyms.length === 0) return null;
+      question = `Which word is a synonym of "${entry.word}"?`;
+      correctAnswer = synonyms[Math.floor(random() * synonyms.length)];
+      // The word's own antonyms make good wrong answers
+      distractors = pickDistractors(
+        [...antonyms, ...others.flatMap(other => [other.word, ...(other.synonyms || [])])],
+        [entry.word, ...synonyms],
+        random
+      );
+      break;
+    case 'antonyms':
+      if (antonyms.length === 0) return null;
+      question = `Which word is an antonym of "${entry.word}"?`;
+      correctAnswer = antonyms[Math.floor(random() * antonyms.length)];
+      distractors = pickDistractors(
+        [...synonyms, ...others.flatMap(other => [other.word, ...(other.antonyms || [])])],
+        [entry.word, ...antonyms],
+        random
+      );
+      break;
+    case 'fill-blank': {
+      const blanked = blankOutWord(entry.example, entry.word);
+      if (!blanked) return null;
+      question = `Fill in the blank: ${blanked}`;
+      correctAnswer = entry.word;
+      distractors = pickDistractors(others.map(other => other.word), [entry.word], random);
+      break;
+    }
+  }
+
+  if (distractors.length === 0) return null;
+
+  return {
+    wordId: entry.id,
+    word: entry.word,
+    question,
+    options: shuffle([correctAnswer, ...distractors], random),
+    correctAnswer,
+    type,
+    ...reviewFields(entry),
+  };
+};
+
+// Stand-in for the quiz endpoint. The same entries, type and seed always give
+// the same quiz. Entries that can't support the type are skipped; 'mixed'
+// tries the types in random order.
+export const generateQuiz = (
+  entries: VocabularyEntry[],
+  type: ChoiceQuestionType | 'mixed',
+  count: number,
+  seed: number,
+  distractorPool: VocabularyEntry[] = entries
+): QuizResponse => {
+  const random = createSeededRandom(seed);
+  const questions: QuizQuestion[] = [];
+
+  for (const entry of shuffle(entries, random)) {
+    if (questions.length >= count) break;
+
+    const types = type === 'mixed' ? shuffle(CHOICE_QUESTION_TYPES, random) : [type];
+    for (const questionType of types) {
+      const question = buildChoiceQuestion(entry, questionType, distractorPool, random);
+      if (question) {
+        questions.push(question);
+        break;
+      }
+    }
+  }
+
+  return { questions, totalQuestions: questions.length, quizType: type, seed };
+};
+
+// Worksheets can't play audio, so every other type can be printed
+export type PrintableQuestionType = Exclude<QuestionType, 'spelling' | 'listening'>;
+
+export const isPrintableQuestionType = (
+  type: QuestionType | 'mixed'
+): type is PrintableQuestionType | 'mixed' => !isAudioQuestion(type);
+
+// Questions for a printed worksheet, seeded like generateQuiz so the seed on
+// the sheet rebuilds the same questions
+export const generateWorksheetQuiz = (
+  entries: VocabularyEntry[],
+  type: PrintableQuestionType | 'mixed',
+  count: number,
+  seed: number,
+  distractorPool: VocabularyEntry[] = entries
+): QuizResponse => {
+  if (type !== 'typing' && type !== 'match') {
+    return generateQuiz(entries, type, count, seed, distractorPool);
+  }
+
+  const random = createSeededRandom(seed);
+  const questions = buildLocalQuestions(shuffle(entries, random).slice(0, count), type, distractorPool, random);
+  return { questions, totalQuestions: questions.length, quizType: type, seed };
+};
@@ -0,0 +1,71 @@
+// Local record of finished quiz and flashcard sessions, newest first, so
+// results can be revisited after the results screen is closed
+import { QuizResult } from '../types/quiz';
+
+export const QUIZ_HISTORY_LIMIT = 100;
+
+const STORAGE_KEY_PREFIX = 'quizHistory';
+
+export interface QuizHistoryEntry {
+  id: string;
+  quizType: string;
+  // Word status filter the session was started with, or 'selected' when it
+  // covered hand-picked words
+  wordFilter: string;
+  startedAt: number;
+  completedAt: number;
+  durationSeconds: number;
+  totalQuestions: number;
+  correctAnswers: number;
+  results: QuizResult[];
+}
+
+export type NewQuizHistoryEntry = Omit<QuizHistoryEntry, 'id' | 'completedAt' | 'durationSeconds' | 'totalQuestions' | 'correctAnswers'>;
+
+const getStorageKey = (userId?: string) =>
+  userId ? `${STORAGE_KEY_PREFIX}:${userId}` : STORAGE_KEY_PREFIX;
+
+export const getQuizHistory = (userId?: string): QuizHistoryEntry[] => {
+  const raw = localStorage.getItem(getStorageKey(userId));
+  if (!raw) return [];
+
+  try {
+    const history = JSON.parse(raw);
+    return Array.isArray(history) ? history : [];
+  } catch (error) {
+    console.warn('Discarding unreadable quiz history:', error);
+    localStorage.removeItem(getStorageKey(userId));
+    return [];
+  }
+};
+
+export const addQuizHistoryEntry = (userId: string | undefined, session: NewQuizHistoryEntry): QuizHistoryEntry => {
+  const completedAt = Date.now();
+  const entry: QuizHistoryEntry = {
+    ...session,
+    id: `${completedAt.toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+    completedAt,
+    durationSeconds: Math.max(0, Math.round((completedAt - session.startedAt) / 1000)),
+    totalQuestions: session.results.length,
+    correctAnswers: session.results.filter(result => result.correct).length,
+    // The schedule was only needed for the submission
+    results: session.results.map(({ schedule, ...result }) => result),
+  };
+
+  try {
+    const history = [entry, ...getQuizHistory(userId)].slice(0, QUIZ_HISTORY_LIMIT);
+    localStorage.setItem(getStorageKey(userId), JSON.stringify(history));
+  } catch (error) {
+    console.warn('Failed to save quiz history:', error);
+  }
+
+  return entry;
+};
+
+export const clearQuizHistory = (userId?: string) => {
+  localStorage.removeItem(getStorageKey(userId));
+};
+
+// Words answered wrong at least once, in the order they were asked
+export const getMissedWordIds = (entry: QuizHistoryEntry) =>
+  Array.from(new Set(entry.results.filter(result => !result.correct).map(result => result.wordId)));
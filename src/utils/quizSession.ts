@@ -0,0 +1,80 @@
+// Local persistence of an in-progress quiz so it survives refreshes and
+// navigation. Sessions carry a version tag and expire after a day.
+import { QuizQuestion, QuizResponse, TimingMode } from '../types/quiz';
+
+export const QUIZ_SESSION_VERSION = 5;
+export const QUIZ_SESSION_MAX_AGE_MS = 24 * 60 * 60 * 1000;
+
+const STORAGE_KEY_PREFIX = 'quizSession';
+
+export interface SavedQuizSession {
+  version: number;
+  savedAt: number;
+  quizType: string;
+  wordFilter: string;
+  quizData: QuizResponse;
+  selectedAnswers: { [key: string]: string };
+  responseTimes: { [key: string]: number };
+  timeSpent: { [key: string]: number };
+  currentQuestionIndex: number;
+  timingMode: TimingMode;
+  secondsPerQuestion: number;
+  practiceMode: boolean;
+  missedAnswers: { [key: string]: string };
+  // Seconds remaining on the quiz or question countdown when the session was
+  // saved; the clock doesn't run while the quiz is closed
+  timeLeft: number;
+  // Start time, shifted on resume by the time the quiz spent closed
+  startedAt: number;
+  // Adaptive sessions only: how hard each word is for the user, the level the
+  // session is aiming for and the questions still held in reserve
+  adaptiveChallenges: { [key: string]: number } | null;
+  adaptiveLevel: number;
+  adaptivePool: QuizQuestion[];
+}
+
+export type QuizSessionState = Omit<SavedQuizSession, 'version' | 'savedAt'>;
+
+const getStorageKey = (userId?: string) =>
+  userId ? `${STORAGE_KEY_PREFIX}:${userId}` : STORAGE_KEY_PREFIX;
+
+export const saveQuizSession = (userId: string | undefined, state: QuizSessionState) => {
+  const session: SavedQuizSession = {
+    ...state,
+    version: QUIZ_SESSION_VERSION,
+    savedAt: Date.now(),
+  };
+
+  try {
+    localStorage.setItem(getStorageKey(userId), JSON.stringify(session));
+  } catch (error) {
+    // Storage may be full or disabled; the quiz still works without it
+    console.warn('Failed to save quiz session:', error);
+  }
+};
+
+export const clearQuizSession = (userId?: string) => {
+  localStorage.removeItem(getStorageKey(userId));
+};
+
+// Load a saved session, discarding it if it is stale, from another version
+// or unreadable
+export const loadQuizSession = (userId?: string): SavedQuizSession | null => {
+  const raw = localStorage.getItem(getStorageKey(userId));
+  if (!raw) return null;
+
+  try {
+    const session = JSON.parse(raw) as SavedQuizSession;
+    const isValid = session.version === QUIZ_SESSION_VERSION
+      && Date.now() - session.savedAt < QUIZ_SESSION_MAX_AGE_MS
+      && session.quizData?.questions?.length > 0
+      && session.currentQuestionIndex < session.quizData.questions.length;
+
+    if (isValid) return session;
+  } catch (error) {
+    console.warn('Discarding unreadable quiz session:', error);
+  }
+
+  clearQuizSession(userId);
+  return null;
+};
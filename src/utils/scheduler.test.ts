@@ -0,0 +1,72 @@
+import {
+  DEFAULT_EASE_FACTOR,
+  MASTERED_INTERVAL_DAYS,
+  MIN_EASE_FACTOR,
+  ReviewState,
+  getReviewState,
+  scheduleReview
+} from './scheduler';
+
+const NOW = new Date(2024, 5, 30, 12);
+
+const state = (changes: Partial<ReviewState> = {}): ReviewState => ({
+  easeFactor: DEFAULT_EASE_FACTOR,
+  intervalDays: 0,
+  reviewCount: 0,
+  status: 'learning',
+  ...changes,
+});
+
+describe('scheduleReview', () => {
+  it('restarts the interval after a lapse', () => {
+    const update = scheduleReview(state({ intervalDays: 15, reviewCount: 4, status: 'reviewing' }), 1, NOW);
+
+    expect(update.interval_days).toBe(1);
+    expect(update.review_count).toBe(5);
+    expect(update.status).toBe('reviewing');
+    expect(update.ease_factor).toBeLessThan(DEFAULT_EASE_FACTOR);
+  });
+
+  it('keeps a new word in learning after a lapse', () => {
+    expect(scheduleReview(state(), 0, NOW).status).toBe('learning');
+  });
+
+  it('grows the interval with each good review', () => {
+    const first = scheduleReview(state(), 4, NOW);
+    const second = scheduleReview(state({ intervalDays: first.interval_days, easeFactor: first.ease_factor }), 4, NOW);
+    const third = scheduleReview(state({ intervalDays: second.interval_days, easeFactor: second.ease_factor }), 4, NOW);
+
+    expect(first.interval_days).toBe(1);
+    expect(second.interval_days).toBe(6);
+    expect(third.interval_days).toBe(Math.round(6 * second.ease_factor));
+    expect(third.next_review).toBe(new Date(NOW.getTime() + third.interval_days * 24 * 60 * 60 * 1000).toISOString());
+  });
+
+  it('never lowers the ease factor below the floor', () => {
+    const update = scheduleReview(state({ easeFactor: MIN_EASE_FACTOR }), 0, NOW);
+
+    expect(update.ease_factor).toBe(MIN_EASE_FACTOR);
+  });
+
+  it('marks a word mastered once the interval reaches the threshold', () => {
+    const below = scheduleReview(state({ intervalDays: 6, easeFactor: 3, status: 'reviewing' }), 4, NOW);
+    const above = scheduleReview(state({ intervalDays: 8, easeFactor: 3, status: 'reviewing' }), 4, NOW);
+
+    expect(below.interval_days).toBeLessThan(MASTERED_INTERVAL_DAYS);
+    expect(below.status).toBe('reviewing');
+    expect(above.interval_days).toBeGreaterThanOrEqual(MASTERED_INTERVAL_DAYS);
+    expect(above.status).toBe('mastered');
+  });
+});
+
+describe('getReviewState', () => {
+  it('starts harder words with a lower ease factor', () => {
+    expect(getReviewState({}).easeFactor).toBe(DEFAULT_EASE_FACTOR);
+    expect(getReviewState({ difficulty: 5 }).easeFactor).toBeCloseTo(1.9);
+  });
+
+  it('reads the saved schedule of an entry', () => {
+    expect(getReviewState({ ease_factor: 2.1, interval_days: 12, review_count: 3, status: 'reviewing' }))
+      .toEqual({ easeFactor: 2.1, intervalDays: 12, reviewCount: 3, status: 'reviewing' });
+  });
+});
@@ -0,0 +1,159 @@
+// Spaced repetition scheduling based on the SM-2 algorithm.
+// Each review is graded 0-5; grades below 3 count as a lapse and restart
+// the word, higher grades grow the interval by the word's ease factor.
+import { VocabularyEntry, WordStatus } from '../types/vocabulary';
+
+export type ReviewQuality = 0 | 1 | 2 | 3 | 4 | 5;
+
+export interface ReviewState {
+  easeFactor: number;
+  intervalDays: number;
+  reviewCount: number;
+  status: WordStatus;
+}
+
+// Fields written back to the vocabulary entry after a review
+export interface ScheduleUpdate {
+  ease_factor: number;
+  interval_days: number;
+  review_count: number;
+  last_reviewed: string;
+  next_review: string;
+  status: WordStatus;
+}
+
+export const DEFAULT_EASE_FACTOR = 2.5;
+export const MIN_EASE_FACTOR = 1.3;
+export const MASTERED_INTERVAL_DAYS = 21;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Response time thresholds used to grade correct answers
+const FAST_RESPONSE_MS = 5000;
+const SLOW_RESPONSE_MS = 15000;
+
+const isWordStatus = (status?: string): status is WordStatus =>
+  status === 'learning' || status === 'reviewing' || status === 'mastered';
+
+// Build the scheduling state of a word. Words that were never scheduled start
+// with an ease factor lowered by their difficulty (1-5).
+export const getReviewState = (
+  entry: Partial<Pick<VocabularyEntry, 'ease_factor' | 'interval_days' | 'review_count' | 'status' | 'difficulty'>>
+): ReviewState => {
+  const difficultyPenalty = ((entry.difficulty || 1) - 1) * 0.15;
+
+  return {
+    easeFactor: entry.ease_factor || Math.max(MIN_EASE_FACTOR, DEFAULT_EASE_FACTOR - difficultyPenalty),
+    intervalDays: entry.interval_days || 0,
+    reviewCount: entry.review_count || 0,
+    status: isWordStatus(entry.status) ? entry.status : 'learning',
+  };
+};
+
+// Turn a quiz answer into an SM-2 quality grade
+export const gradeResponse = (correct: boolean, responseTimeMs?: number): ReviewQuality => {
+  if (!correct) {
+    return responseTimeMs === undefined ? 0 : 1;
+  }
+  if (responseTimeMs === undefined) return 4;
+  if (responseTimeMs <= FAST_RESPONSE_MS) return 5;
+  if (responseTimeMs <= SLOW_RESPONSE_MS) return 4;
+  return 3;
+};
+
+const getNextStatus = (state: ReviewState, quality: ReviewQuality, intervalDays: number): WordStatus => {
+  if (quality < 3) {
+    // A lapse on a word that was already known sends it back to review
+    return state.status === 'learning' ? 'learning' : 'reviewing';
+  }
+  if (intervalDays >= MASTERED_INTERVAL_DAYS) return 'mastered';
+  return 'reviewing';
+};
+
+export const scheduleReview = (
+  state: ReviewState,
+  quality: ReviewQuality,
+  now: Date = new Date()
+): ScheduleUpdate => {
+  let intervalDays: number;
+
+  if (quality < 3) {
+    intervalDays = 1;
+  } else if (state.intervalDays < 1) {
+    intervalDays = 1;
+  } else if (state.intervalDays < 6) {
+    intervalDays = 6;
+  } else {
+    intervalDays = Math.round(state.intervalDays * state.easeFactor);
+  }
+
+  const easeFactor = Math.max(
+    MIN_EASE_FACTOR,
+    state.easeFactor + 0.1 - (5 - quality) * (0.08 + (5 - quality) * 0.02)
+  );
+
+  return {
+    ease_factor: Math.round(easeFactor * 100) / 100,
+    interval_days: intervalDays,
+    review_count: state.reviewCount + 1,
+    last_reviewed: now.toISOString(),
+    next_review: new Date(now.getTime() + intervalDays * DAY_MS).toISOString(),
+    status: getNextStatus(state, quality, intervalDays),
+  };
+};
+
+const startOfDay = (date: Date) => new Date(date.getFullYear(), date.getMonth(), date.getDate());
+
+// Words without a next_review date have never been scheduled and are due now
+export const isDue = (entry: Pick<VocabularyEntry, 'next_review'>, now: Date = new Date()): boolean =>
+  !entry.next_review || new Date(entry.next_review).getTime() <= now.getTime();
+
+// Whole days a due word is past its review date, 0 when due today
+export const getOverdueDays = (entry: Pick<VocabularyEntry, 'next_review'>, now: Date = new Date()): number => {
+  if (!entry.next_review) return 0;
+  const diff = startOfDay(now).getTime() - startOfDay(new Date(entry.next_review)).getTime();
+  return Math.max(0, Math.round(diff / DAY_MS));
+};
+
+export interface ForecastDay {
+  date: Date;
+  count: number;
+}
+
+// Number of reviews falling due on each of the next `days` days. Anything
+// already overdue is counted on the first day.
+export const getReviewForecast = (
+  entries: Pick<VocabularyEntry, 'next_review'>[],
+  days = 7,
+  now: Date = new Date()
+): ForecastDay[] => {
+  const today = startOfDay(now);
+  const forecast: ForecastDay[] = Array.from({ length: days }, (_, i) => ({
+    date: new Date(today.getTime() + i * DAY_MS),
+    count: 0,
+  }));
+
+  entries.forEach(entry => {
+    const dueDay = entry.next_review ? startOfDay(new Date(entry.next_review)) : today;
+    const index = Math.max(0, Math.round((dueDay.getTime() - today.getTime()) / DAY_MS));
+    if (index < days) {
+      forecast[index].count += 1;
+    }
+  });
+
+  return forecast;
+};
+
+// Move a review date forward by whole days, starting from now
+export const snoozeDate = (days: number, now: Date = new Date()): string =>
+  new Date(now.getTime() + days * DAY_MS).toISOString();
+
+export type FlashcardGrade = 'again' | 'hard' | 'good' | 'easy';
+
+// Self-grades from flashcard review mapped onto SM-2 quality
+export const FLASHCARD_QUALITY: Record<FlashcardGrade, ReviewQuality> = {
+  again: 1,
+  hard: 3,
+  good: 4,
+  easy: 5,
+};
@@ -0,0 +1,39 @@
+// Thin wrapper around the browser SpeechSynthesis API
+
+export const isSpeechSynthesisSupported = (): boolean =>
+  typeof window !== 'undefined' && 'speechSynthesis' in window;
+
+export interface SpeakOptions {
+  rate?: number;
+  lang?: string;
+  voice?: SpeechSynthesisVoice | null;
+  onEnd?: () => void;
+}
+
+export const speak = (text: string, options: SpeakOptions = {}): boolean => {
+  if (!isSpeechSynthesisSupported() || !text) return false;
+
+  const utterance = new SpeechSynthesisUtterance(text);
+  utterance.rate = options.rate ?? 1;
+  if (options.voice) {
+    utterance.voice = options.voice;
+    utterance.lang = options.voice.lang;
+  } else if (options.lang) {
+    utterance.lang = options.lang;
+  }
+  if (options.onEnd) {
+    utterance.onend = options.onEnd;
+    utterance.onerror = options.onEnd;
+  }
+
+  // Stop anything still playing so repeated clicks don't queue up
+  window.speechSynthesis.cancel();
+  window.speechSynthesis.speak(utterance);
+  return true;
+};
+
+export const stopSpeaking = () => {
+  if (isSpeechSynthesisSupported()) {
+    window.speechSynthesis.cancel();
+  }
+};
@@ -0,0 +1,49 @@
+import { TagColor, TagDefinition } from '../types/preferences';
+
+// Class names are spelled out so Tailwind keeps them in the build
+export const TAG_COLORS: { [color in TagColor]: { badge: string; swatch: string } } = {
+  gray: { badge: 'bg-gray-100 text-gray-800', swatch: 'bg-gray-400' },
+  red: { badge: 'bg-red-100 text-red-800', swatch: 'bg-red-500' },
+  orange: { badge: 'bg-orange-100 text-orange-800', swatch: 'bg-orange-500' },
+  yellow: { badge: 'bg-yellow-100 text-yellow-800', swatch: 'bg-yellow-400' },
+  green: { badge: 'bg-green-100 text-green-800', swatch: 'bg-green-500' },
+  teal: { badge: 'bg-teal-100 text-teal-800', swatch: 'bg-teal-500' },
+  blue: { badge: 'bg-blue-100 text-blue-800', swatch: 'bg-blue-500' },
+  indigo: { badge: 'bg-indigo-100 text-indigo-800', swatch: 'bg-indigo-500' },
+  purple: { badge: 'bg-purple-100 text-purple-800', swatch: 'bg-purple-500' },
+  pink: { badge: 'bg-pink-100 text-pink-800', swatch: 'bg-pink-500' },
+};
+
+export const TAG_COLOR_NAMES = Object.keys(TAG_COLORS) as TagColor[];
+
+// Used until the user saves tags of their own. 'rare' is suggested for
+// infrequent words found in uploads.
+export const DEFAULT_TAGS: TagDefinition[] = [
+  { name: 'learning', color: 'blue' },
+  { name: 'reviewing', color: 'yellow' },
+  { name: 'mastered', color: 'green' },
+  { name: 'favorite', color: 'pink' },
+  { name: 'difficult', color: 'red' },
+  { name: 'important', color: 'purple' },
+  { name: 'rare', color: 'teal' },
+];
+
+// Tags are lowercase with dashes instead of spaces, e.g. "phrasal-verb"
+export const normalizeTagName = (name: string) =>
+  name.trim().toLowerCase().replace(/\s+/g, '-');
+
+export const getTagBadgeClass = (color?: TagColor) =>
+  TAG_COLORS[color || 'gray']?.badge || TAG_COLORS.gray.badge;
+
+// A color no tag uses yet, so a new tag stands out; gray once all are taken
+export const pickTagColor = (tags: TagDefinition[]): TagColor =>
+  TAG_COLOR_NAMES.find(color => color !== 'gray' && !tags.some(tag => tag.color === color)) || 'gray';
+
+// Saved definitions, then any other tag found on words in gray
+export const getTagList = (saved: TagDefinition[] | undefined, usedNames: string[] = []): TagDefinition[] => {
+  const tags = [...(saved || DEFAULT_TAGS)];
+  usedNames.forEach(name => {
+    if (name && !tags.some(tag => tag.name === name)) tags.push({ name, color: 'gray' });
+  });
+  return tags;
+};
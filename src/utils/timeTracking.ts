@@ -0,0 +1,129 @@
+// Active learning time per day and activity. Time is logged locally so the
+// Dashboard can show it straight away, and reported to the backend in
+// batches; reports that fail stay pending and go out with the next batch.
+import axios from 'axios';
+import { addDays, toDayKey } from './activity';
+
+export type TrackedActivity = 'quiz' | 'vocabulary' | 'add-word';
+
+export const TRACKED_ACTIVITIES: Array<{ value: TrackedActivity; label: string }> = [
+  { value: 'quiz', label: 'Quizzes' },
+  { value: 'vocabulary', label: 'Vocabulary' },
+  { value: 'add-word', label: 'Adding words' },
+];
+
+// Seconds per activity for each YYYY-MM-DD day
+export type TimeLog = { [day: string]: { [activity: string]: number } };
+
+export interface TimeSummary {
+  today: number;
+  week: number;
+  allTime: number;
+  byActivity: { [activity: string]: number };
+}
+
+const LOG_KEY_PREFIX = 'timeSpent';
+const PENDING_KEY_PREFIX = 'timeSpentPending';
+
+const getStorageKey = (prefix: string, userId?: string) =>
+  userId ? `${prefix}:${userId}` : prefix;
+
+const readLog = (key: string): TimeLog => {
+  const raw = localStorage.getItem(key);
+  if (!raw) return {};
+
+  try {
+    const log = JSON.parse(raw);
+    return log && typeof log === 'object' ? log : {};
+  } catch (error) {
+    console.warn('Discarding unreadable time log:', error);
+    localStorage.removeItem(key);
+    return {};
+  }
+};
+
+const writeLog = (key: string, log: TimeLog) => {
+  try {
+    localStorage.setItem(key, JSON.stringify(log));
+  } catch (error) {
+    console.warn('Failed to save time log:', error);
+  }
+};
+
+const addToLog = (log: TimeLog, day: string, activity: string, seconds: number) => {
+  const totals = log[day] || {};
+  const next = (totals[activity] || 0) + seconds;
+  if (next > 0) {
+    log[day] = { ...totals, [activity]: next };
+  } else {
+    const { [activity]: removed, ...rest } = totals;
+    if (Object.keys(rest).length > 0) log[day] = rest; else delete log[day];
+  }
+};
+
+export const getTimeLog = (userId?: string) => readLog(getStorageKey(LOG_KEY_PREFIX, userId));
+
+export const recordTime = (userId: string | undefined, activity: TrackedActivity, seconds: number, date = new Date()) => {
+  if (seconds <= 0) return;
+  const day = toDayKey(date);
+  [LOG_KEY_PREFIX, PENDING_KEY_PREFIX].forEach(prefix => {
+    const key = getStorageKey(prefix, userId);
+    const log = readLog(key);
+    addToLog(log, day, activity, seconds);
+    writeLog(key, log);
+  });
+};
+
+let isFlushing = false;
+
+// Send the pending time in one request. Only what was sent is taken off the
+// pending log, so time recorded during the request goes out next time.
+export const flushTimeReports = async (userId?: string) => {
+  const key = getStorageKey(PENDING_KEY_PREFIX, userId);
+  const pending = readLog(key);
+  const reports = Object.keys(pending).flatMap(date =>
+    Object.keys(pending[date]).map(activity => ({ date, activity, seconds: pending[date][activity] }))
+  );
+  if (isFlushing || reports.length === 0) return;
+
+  isFlushing = true;
+  try {
+    await axios.post('/activity/time', { reports });
+    const remaining = readLog(key);
+    reports.forEach(report => addToLog(remaining, report.date, report.activity, -report.seconds));
+    writeLog(key, remaining);
+  } catch (error) {
+    console.warn('Failed to report learning time, will retry:', error);
+  } finally {
+    isFlushing = false;
+  }
+};
+
+export const getTimeSummary = (log: TimeLog, today: Date = new Date()): TimeSummary => {
+  const todayKey = toDayKey(today);
+  // Weeks start on Monday
+  const weekStart = toDayKey(addDays(today, -((today.getDay() + 6) % 7)));
+  const summary: TimeSummary = { today: 0, week: 0, allTime: 0, byActivity: {} };
+
+  Object.keys(log).forEach(day => {
+    Object.keys(log[day]).forEach(activity => {
+      const seconds = log[day][activity];
+      summary.allTime += seconds;
+      summary.byActivity[activity] = (summary.byActivity[activity] || 0) + seconds;
+      // Day keys sort chronologically
+      if (day >= weekStart && day <= todayKey) summary.week += seconds;
+      if (day === todayKey) summary.today += seconds;
+    });
+  });
+
+  return summary;
+};
+
+// e.g. "2h 5m", "12m" or "40s"
+export const formatDuration = (seconds: number) => {
+  const hours = Math.floor(seconds / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+  if (hours > 0) return `${hours}h ${minutes}m`;
+  if (minutes > 0) return `${minutes}m`;
+  return `${Math.floor(seconds)}s`;
+};
@@ -0,0 +1,115 @@
+// Local edits to the cached vocabulary lists and stats, so a change shows up
+// before the server has it and without refetching. Lists live under the
+// 'vocabulary' key (the paged table queries hold a VocabularyResponse and
+// ['vocabulary', 'all'] a plain array) and under 'recentWords' on the
+// Dashboard. Each edit returns a function that reverts exactly that edit.
+import { QueryClient, QueryKey } from 'react-query';
+import { VocabularyEntry, VocabularyResponse, VocabularyStats } from '../types/vocabulary';
+
+type CachedList = VocabularyResponse | VocabularyEntry[] | undefined;
+
+const LIST_KEYS = ['vocabulary', 'recentWords'];
+const STATS_KEY = 'vocabularyStats';
+
+const getEntries = (data: CachedList) =>
+  !data ? [] : Array.isArray(data) ? data : data.vocabulary;
+
+const withEntries = (data: CachedList, entries: VocabularyEntry[], totalChange = 0): CachedList => {
+  if (!data) return data;
+  if (Array.isArray(data)) return entries;
+  return { ...data, vocabulary: entries, total: data.total + totalChange };
+};
+
+const getCachedLists = (queryClient: QueryClient) =>
+  LIST_KEYS.flatMap(key => queryClient.getQueriesData<CachedList>(key));
+
+const findCachedEntry = (queryClient: QueryClient, id: string) => {
+  for (const [, data] of getCachedLists(queryClient)) {
+    const entry = getEntries(data).find(item => item.id === id);
+    if (entry) return entry;
+  }
+  return undefined;
+};
+
+// Keep in-flight fetches from overwriting an edit
+const cancelFetches = (queryClient: QueryClient) => {
+  [...LIST_KEYS, STATS_KEY].forEach(key => queryClient.cancelQueries(key));
+};
+
+const adjustGroups = (groups: VocabularyStats['statusStats'], ids: string[], change: number) => {
+  const next = groups.map(group => ids.includes(group._id) ? { ...group, count: group.count + change } : group);
+  ids.filter(id => !groups.some(group => group._id === id)).forEach(id => next.push({ _id: id, count: change }));
+  // The server leaves out empty groups
+  return next.filter(group => group.count > 0);
+};
+
+// Add (1) or take away (-1) an entry's status and tags in the cached stats,
+// and the entry itself when it is added or removed as a whole
+const countInStats = (queryClient: QueryClient, entry: VocabularyEntry, change: number, countWord: boolean) => {
+  queryClient.setQueriesData<VocabularyStats | undefined>(STATS_KEY, stats => stats && {
+    ...stats,
+    totalWords: stats.totalWords + (countWord ? change : 0),
+    statusStats: adjustGroups(stats.statusStats || [], [entry.status], change),
+    tagStats: adjustGroups(stats.tagStats || [], entry.tags, change),
+  });
+};
+
+export const patchCachedEntry = (
+  queryClient: QueryClient,
+  id: string,
+  changes: Partial<VocabularyEntry>
+) => {
+  const previous = findCachedEntry(queryClient, id);
+  if (!previous) return () => {};
+  cancelFetches(queryClient);
+
+  const apply = (fields: Partial<VocabularyEntry>) => {
+    LIST_KEYS.forEach(key => {
+      queryClient.setQueriesData<CachedList>(key, data =>
+        withEntries(data, getEntries(data).map(entry => entry.id === id ? { ...entry, ...fields } : entry))
+      );
+    });
+  };
+
+  // Only the changed fields are put back, so other edits to the entry survive
+  const original = Object.keys(changes).reduce((fields, key) => ({
+    ...fields,
+    [key]: previous[key as keyof VocabularyEntry],
+  }), {} as Partial<VocabularyEntry>);
+  const updated = { ...previous, ...changes };
+
+  apply(changes);
+  countInStats(queryClient, previous, -1, false);
+  countInStats(queryClient, updated, 1, false);
+  return () => {
+    apply(original);
+    countInStats(queryClient, updated, -1, false);
+    countInStats(queryClient, previous, 1, false);
+  };
+};
+
+export const removeCachedEntry = (queryClient: QueryClient, id: string) => {
+  // Remember where the entry was in each list to put it back in place
+  const removed: Array<{ queryKey: QueryKey; index: number; entry: VocabularyEntry }> = [];
+  cancelFetches(queryClient);
+
+  getCachedLists(queryClient).forEach(([queryKey, data]) => {
+    const entries = getEntries(data);
+    const index = entries.findIndex(entry => entry.id === id);
+    if (index === -1) return;
+    removed.push({ queryKey, index, entry: entries[index] });
+    queryClient.setQueryData<CachedList>(queryKey, withEntries(data, entries.filter(entry => entry.id !== id), -1));
+  });
+  if (removed.length > 0) countInStats(queryClient, removed[0].entry, -1, true);
+
+  return () => {
+    removed.forEach(({ queryKey, index, entry }) => {
+      queryClient.setQueryData<CachedList>(queryKey, data => {
+        const entries = getEntries(data);
+        if (!data || entries.some(item => item.id === id)) return data;
+        return withEntries(data, [...entries.slice(0, index), entry, ...entries.slice(index)], 1);
+      });
+    });
+    if (removed.length > 0) countInStats(queryClient, removed[0].entry, 1, true);
+  };
+};
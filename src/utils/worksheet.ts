@@ -0,0 +1,174 @@
+// Printable worksheets: the questions with tick boxes or blanks to fill in,
+// followed by an answer key on its own page
+import jsPDF from 'jspdf';
+import autoTable from 'jspdf-autotable';
+import QRCode from 'qrcode';
+import { QuizQuestion, QuizResponse } from '../types/quiz';
+
+const PAGE_MARGIN = 20;
+const LINE_HEIGHT = 6;
+const QUESTION_GAP = 6;
+const QR_SIZE = 28;
+const CHECKBOX_SIZE = 3.5;
+const ANSWER_LINE_WIDTH = 80;
+
+export interface WorksheetOptions {
+  title: string;
+  subtitle?: string;
+  // Print the quiz seed as a QR code so the same questions can be rebuilt
+  includeSeedCode?: boolean;
+}
+
+export const getSeedCodeText = (seed: number) => `vocab-quiz-seed:${seed}`;
+
+const getLetter = (index: number) => String.fromCharCode(65 + index);
+
+const getPrompt = (question: QuizQuestion) => {
+  if (question.pairs) return 'Match each word with its meaning. Write the letter in the blank.';
+  if (question.type === 'typing') return `Write the word that means: ${question.question}`;
+  return question.question;
+};
+
+const getAnswer = (question: QuizQuestion) => {
+  if (question.pairs) {
+    return question.pairs
+      .map(pair => `${pair.word}: ${getLetter(question.options.indexOf(pair.correctAnswer))}`)
+      .join(', ');
+  }
+  if (question.options.length > 0) {
+    return `${getLetter(question.options.indexOf(question.correctAnswer))}. ${question.correctAnswer}`;
+  }
+  return question.correctAnswer;
+};
+
+export const createWorksheet = async (quiz: QuizResponse, options: WorksheetOptions) => {
+  const doc = new jsPDF('portrait', 'mm', 'a4');
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const pageHeight = doc.internal.pageSize.getHeight();
+  const contentWidth = pageWidth - PAGE_MARGIN * 2;
+  const showSeedCode = !!options.includeSeedCode && quiz.seed !== undefined;
+  let y = PAGE_MARGIN;
+
+  // Start a new page when the next block wouldn't fit
+  const ensureSpace = (height: number) => {
+    if (y + height > pageHeight - PAGE_MARGIN) {
+      doc.addPage();
+      y = PAGE_MARGIN;
+    }
+  };
+
+  // Header, leaving room on the right for the seed code
+  const headerWidth = showSeedCode ? contentWidth - QR_SIZE - 5 : contentWidth;
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(18);
+  doc.text(doc.splitTextToSize(options.title, headerWidth), PAGE_MARGIN, y + 6);
+  doc.setFont('helvetica', 'normal');
+  doc.setFontSize(11);
+  if (options.subtitle) {
+    doc.setTextColor(100, 100, 100);
+    doc.text(doc.splitTextToSize(options.subtitle, headerWidth), PAGE_MARGIN, y + 14);
+    doc.setTextColor(0, 0, 0);
+  }
+  doc.text('Name: ________________________    Date: ______________', PAGE_MARGIN, y + 26);
+
+  if (showSeedCode && quiz.seed !== undefined) {
+    const image = await QRCode.toDataURL(getSeedCodeText(quiz.seed), { margin: 0, width: 256 });
+    doc.addImage(image, 'PNG', pageWidth - PAGE_MARGIN - QR_SIZE, y, QR_SIZE, QR_SIZE);
+    doc.setFontSize(8);
+    doc.text(`Seed ${quiz.seed}`, pageWidth - PAGE_MARGIN - QR_SIZE, y + QR_SIZE + 4);
+    doc.setFontSize(11);
+  }
+  y += Math.max(36, showSeedCode ? QR_SIZE + 10 : 0);
+
+  quiz.questions.forEach((question, index) => {
+    const prompt: string[] = doc.splitTextToSize(`${index + 1}. ${getPrompt(question)}`, contentWidth);
+
+    if (question.pairs) {
+      // Words with a blank on the left, lettered meanings on the right
+      const columnWidth = contentWidth / 2 - 5;
+      const meanings: string[][] = question.options.map((meaning, meaningIndex) =>
+        doc.splitTextToSize(`${getLetter(meaningIndex)}. ${meaning}`, columnWidth)
+      );
+      const meaningLines = meanings.reduce((total, lines) => total + lines.length, 0);
+      ensureSpace((prompt.length + Math.max(question.pairs.length, meaningLines)) * LINE_HEIGHT + QUESTION_GAP);
+
+      doc.text(prompt, PAGE_MARGIN, y);
+      y += prompt.length * LINE_HEIGHT;
+      question.pairs.forEach((pair, pairIndex) => {
+        doc.text(`______  ${pair.word}`, PAGE_MARGIN + 5, y + pairIndex * LINE_HEIGHT);
+      });
+      let meaningY = y;
+      meanings.forEach(lines => {
+        doc.text(lines, PAGE_MARGIN + contentWidth / 2 + 5, meaningY);
+        meaningY += lines.length * LINE_HEIGHT;
+      });
+      y = Math.max(y + question.pairs.length * LINE_HEIGHT, meaningY) + QUESTION_GAP;
+    } else if (question.options.length > 0) {
+      // A tick box in front of every option
+      const optionLines: string[][] = question.options.map((option, optionIndex) =>
+        doc.splitTextToSize(`${getLetter(optionIndex)}. ${option}`, contentWidth - 15)
+      );
+      const optionHeight = optionLines.reduce((total, lines) => total + lines.length, 0) * LINE_HEIGHT;
+      ensureSpace(prompt.length * LINE_HEIGHT + optionHeight + QUESTION_GAP);
+
+      doc.text(prompt, PAGE_MARGIN, y);
+      y += prompt.length * LINE_HEIGHT;
+      optionLines.forEach(lines => {
+        doc.rect(PAGE_MARGIN + 5, y - CHECKBOX_SIZE + 0.5, CHECKBOX_SIZE, CHECKBOX_SIZE);
+        doc.text(lines, PAGE_MARGIN + 12, y);
+        y += lines.length * LINE_HEIGHT;
+      });
+      y += QUESTION_GAP;
+    } else {
+      // A line to write the answer on
+      ensureSpace((prompt.length + 2) * LINE_HEIGHT + QUESTION_GAP);
+      doc.text(prompt, PAGE_MARGIN, y);
+      y += (prompt.length + 1) * LINE_HEIGHT;
+      doc.line(PAGE_MARGIN + 5, y, PAGE_MARGIN + 5 + ANSWER_LINE_WIDTH, y);
+      y += LINE_HEIGHT + QUESTION_GAP;
+    }
+  });
+
+  // Answer key
+  doc.addPage();
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(16);
+  doc.text(`Answer Key: ${options.title}`, PAGE_MARGIN, PAGE_MARGIN + 6);
+  doc.setFont('helvetica', 'normal');
+  autoTable(doc, {
+    startY: PAGE_MARGIN + 12,
+    head: [['#', 'Word', 'Answer']],
+    body: quiz.questions.map((question, index) => [
+      index + 1,
+      question.pairs ? `Matching (${question.pairs.length} words)` : question.word,
+      getAnswer(question),
+    ]),
+    theme: 'grid',
+    headStyles: {
+      fillColor: [59, 130, 246],
+      textColor: 255,
+      fontStyle: 'bold'
+    },
+    styles: {
+      fontSize: 10,
+      cellPadding: 3,
+      overflow: 'linebreak'
+    },
+    columnStyles: {
+      0: { cellWidth: 12, halign: 'center' },
+      1: { cellWidth: 45 }
+    },
+    margin: { left: PAGE_MARGIN, right: PAGE_MARGIN },
+  });
+
+  // Page numbers once the page count is known
+  const pageCount = doc.internal.getNumberOfPages();
+  doc.setFontSize(9);
+  doc.setTextColor(100, 100, 100);
+  for (let page = 1; page <= pageCount; page++) {
+    doc.setPage(page);
+    doc.text(`Page ${page} of ${pageCount}`, pageWidth - PAGE_MARGIN, pageHeight - 10, { align: 'right' });
+  }
+
+  return doc;
+};